@@ -1,86 +1,476 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import DrillSession from './components/DrillSession';
 import Analysis from './components/Analysis';
-import { User, AppView, QuestionType, DrillResult } from './types';
+import MockTest from './components/MockTest';
+import Analytics from './components/Analytics';
+import Sprint from './components/Sprint';
+import SolutionReview from './components/SolutionReview';
+import DrillSettingsEditor from './components/DrillSettingsEditor';
+import { User, AppView, QuestionType, DrillResult, QuestionSource, Question, ReviewCard, HotkeyBindings, ProviderSettings, DrillRecommendation, DrillSettings, Challenge, Route, REVIEW_TOPIC, MOCK_TOPIC } from './types';
+import {
+  listProfiles,
+  createProfile,
+  deleteProfile,
+  saveResult,
+  importResults,
+  listReviewCards,
+  saveReviewCards,
+  getActiveProfileId,
+  setActiveProfileId,
+  saveProfileSettings,
+  DatabaseBlockedError
+} from './services/storage';
+import { applyDrillResult, dueCards } from './services/review';
+import { computeRatings, drillDifficulty } from './services/rating';
+import { DEFAULT_DRILL_SETTINGS, scoringOf, settingsOf } from './services/drillSettings';
+import { loadHotkeys, saveHotkeys } from './services/hotkeys';
+import { mergeHistory, newResults } from './services/transfer';
+import { createProvider, offlineProvider, loadProviderSettings, saveProviderSettings } from './services/providers';
+import { currentRoute, writeRoute } from './services/routes';
+import { buildChallenge, challengeLink, challengeQuestions, challengeToken, decodeChallenge, encodeChallenge } from './services/challenge';
+
+const REVIEW_BATCH_SIZE = 10;
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>('login');
   const [user, setUser] = useState<User | null>(null);
-  const [currentTopic, setCurrentTopic] = useState<QuestionType | null>(null);
+  const [profiles, setProfiles] = useState<User[]>([]);
+  const [restoring, setRestoring] = useState(true);
+  const [storageBlocked, setStorageBlocked] = useState<string | null>(null);
+  const [currentTopic, setCurrentTopic] = useState<QuestionType | typeof REVIEW_TOPIC | null>(null);
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  const [reviewQuestions, setReviewQuestions] = useState<Question[] | undefined>(undefined);
+  // Set when a drill follows the coach's recommendation instead of the rating
+  const [drillPlan, setDrillPlan] = useState<{ difficulty: number; count: number } | null>(null);
   const [lastResult, setLastResult] = useState<DrillResult | null>(null);
+  const [lastQuestions, setLastQuestions] = useState<Question[]>([]);
+  const [solutionResult, setSolutionResult] = useState<DrillResult | null>(null);
+  // A challenge link opened before signing in waits here until a profile is chosen
+  const [pendingChallenge, setPendingChallenge] = useState<Challenge | null>(null);
+  const [activeChallenge, setActiveChallenge] = useState<{ challenge: Challenge; questions: Question[] } | null>(null);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>('ai');
+  const [hotkeys, setHotkeys] = useState<HotkeyBindings>(loadHotkeys);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+
+  // Set when the URL asked for a screen before a profile was chosen
+  const requestedRoute = useRef<Route | null>(null);
+
+  const navigate = (route: Route, replace: boolean = false) => {
+    writeRoute(route, replace);
+    setView(route.view);
+  };
+
+  // Reopen the last active profile, and whatever screen the URL points at, after a refresh
+  useEffect(() => {
+    const restore = async () => {
+      let active: User | null = null;
+      try {
+        const stored = await listProfiles();
+        setProfiles(stored);
+        active = stored.find(p => p.id === getActiveProfileId()) ?? null;
+        if (active) setUser(active);
+      } catch (error) {
+        console.error("Failed to load profiles:", error);
+        if (error instanceof DatabaseBlockedError) setStorageBlocked(error.message);
+      }
+      openRoute(currentRoute(), active);
+      setRestoring(false);
+    };
+    restore();
+  }, []);
+
+  // Opening a challenge link; the fragment is cleared so a refresh doesn't restart it
+  const readChallengeLink = (): boolean => {
+    const token = challengeToken(window.location.hash);
+    if (!token) return false;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    decodeChallenge(token).then(challenge => {
+      if (challenge) setPendingChallenge(challenge);
+    });
+    return true;
+  };
+
+  useEffect(() => {
+    readChallengeLink();
+  }, []);
+
+  // Back, Forward and edits to the address bar
+  useEffect(() => {
+    const handlePopState = () => {
+      if (!readChallengeLink()) openRoute(currentRoute(), user);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [user, lastResult]);
+
+  useEffect(() => {
+    if (!user || !pendingChallenge) return;
+    setActiveChallenge({ challenge: pendingChallenge, questions: challengeQuestions(pendingChallenge) });
+    setPendingChallenge(null);
+    setReviewQuestions(undefined);
+    setDrillPlan(null);
+    setCurrentTopic(pendingChallenge.topic);
+    navigate({ view: 'drill', topic: pendingChallenge.topic }, true);
+  }, [user?.id, pendingChallenge]);
 
-  const handleLogin = (newUser: User) => {
-    setUser(newUser);
-    setView('dashboard');
+  useEffect(() => {
+    if (!user) {
+      setReviewCards([]);
+      return;
+    }
+    listReviewCards(user.id)
+      .then(setReviewCards)
+      .catch(error => console.error("Failed to load review cards:", error));
+  }, [user?.id]);
+
+  const handleLogin = (selected: User) => {
+    setActiveProfileId(selected.id);
+    setUser(selected);
+    const requested = requestedRoute.current;
+    requestedRoute.current = null;
+    openRoute(requested, selected);
+  };
+
+  const handleCreateProfile = async (name: string) => {
+    try {
+      const created = await createProfile(name);
+      setProfiles(prev => [...prev, created]);
+      handleLogin(created);
+    } catch (error) {
+      console.error("Failed to create profile:", error);
+    }
+  };
+
+  const handleDeleteProfile = async (target: User) => {
+    try {
+      await deleteProfile(target.id);
+      setProfiles(prev => prev.filter(p => p.id !== target.id));
+    } catch (error) {
+      console.error("Failed to delete profile:", error);
+    }
   };
 
   const handleLogout = () => {
+    setActiveProfileId(null);
+    if (user) setProfiles(prev => prev.map(p => (p.id === user.id ? user : p)));
     setUser(null);
-    setView('login');
+    clearSession();
+    navigate({ view: 'login' });
   };
 
-  const handleStartDrill = (topic: QuestionType) => {
+  const ratings = useMemo(() => computeRatings(user?.history ?? []), [user?.history]);
+  const drillSettings = user ? settingsOf(user) : DEFAULT_DRILL_SETTINGS;
+  // The Offline toggle overrides whichever provider is configured
+  const provider = useMemo(
+    () => (questionSource === 'offline' ? offlineProvider : createProvider(providerSettings)),
+    [questionSource, providerSettings]
+  );
+
+  const clearSession = () => {
+    setCurrentTopic(null);
+    setReviewQuestions(undefined);
+    setDrillPlan(null);
+    setLastResult(null);
+    setLastQuestions([]);
+    setActiveChallenge(null);
+  };
+
+  const startDrill = (topic: QuestionType, plan: { difficulty: number; count: number } | null, replace: boolean = false) => {
+    setActiveChallenge(null);
+    setReviewQuestions(undefined);
+    setDrillPlan(plan);
     setCurrentTopic(topic);
-    setView('drill');
+    navigate({ view: 'drill', topic }, replace);
+  };
+
+  const startReview = (cards: ReviewCard[], replace: boolean = false) => {
+    const due = dueCards(cards).slice(0, REVIEW_BATCH_SIZE);
+    if (due.length === 0) {
+      clearSession();
+      navigate({ view: 'dashboard' }, replace);
+      return;
+    }
+    setActiveChallenge(null);
+    setReviewQuestions(due.map(c => c.question));
+    setCurrentTopic(REVIEW_TOPIC);
+    navigate({ view: 'drill', topic: REVIEW_TOPIC }, replace);
+  };
+
+  const showReport = (result: DrillResult, questions: Question[], replace: boolean = false) => {
+    setLastResult(result);
+    setLastQuestions(questions);
+    setCurrentTopic(result.topic === MOCK_TOPIC ? null : (result.topic as QuestionType | typeof REVIEW_TOPIC));
+    navigate({ view: 'analysis', drillId: result.id }, replace);
   };
 
-  const handleDrillComplete = (result: DrillResult) => {
+  // Shows whatever a route asks for, falling back to the dashboard. Without a profile
+  // every route leads to the login screen, and is picked up again after signing in.
+  const openRoute = (route: Route | null, active: User | null) => {
+    if (!active) {
+      if (route && route.view !== 'login') requestedRoute.current = route;
+      clearSession();
+      navigate({ view: 'login' }, true);
+      return;
+    }
+    switch (route?.view) {
+      case 'drill':
+        if (route.topic !== REVIEW_TOPIC) {
+          startDrill(route.topic, null, true);
+          return;
+        }
+        // Due cards are read fresh; after a reload they haven't been loaded yet
+        listReviewCards(active.id)
+          .then(cards => startReview(cards, true))
+          .catch(error => {
+            console.error("Failed to load review cards:", error);
+            navigate({ view: 'dashboard' }, true);
+          });
+        return;
+      case 'analysis': {
+        if (lastResult?.id === route.drillId) {
+          navigate(route, true);
+          return;
+        }
+        const result = active.history.find(r => r.id === route.drillId);
+        if (!result) break;
+        // Full question snapshots let an older drill be shared as a challenge too
+        const snapshots = result.details.map(d => d.question);
+        setActiveChallenge(null);
+        showReport(result, snapshots.every(q => !!q) ? (snapshots as Question[]) : [], true);
+        return;
+      }
+      case 'solutions': {
+        const result = active.history.find(r => r.id === route.drillId);
+        if (!result) break;
+        setSolutionResult(result);
+        navigate(route, true);
+        return;
+      }
+      case 'mock':
+      case 'analytics':
+      case 'sprint':
+      case 'settings':
+        clearSession();
+        navigate(route, true);
+        return;
+    }
+    clearSession();
+    navigate({ view: 'dashboard' }, true);
+  };
+
+  const handleStartDrill = (topic: QuestionType) => startDrill(topic, null);
+
+  const handleStartRecommended = (recommendation: DrillRecommendation) =>
+    startDrill(recommendation.topic, { difficulty: recommendation.difficulty, count: recommendation.count });
+
+  const handleStartMock = () => {
+    clearSession();
+    navigate({ view: 'mock' });
+  };
+
+  const handleStartReview = () => startReview(reviewCards);
+
+  const handleDrillComplete = (result: DrillResult, questions: Question[] = []) => {
     if (user) {
       const updatedUser = {
         ...user,
         history: [...user.history, result]
       };
       setUser(updatedUser);
+      saveResult(user.id, result).catch(error => console.error("Failed to save drill result:", error));
+
+      // Misses become review cards; replayed cards get rescheduled
+      const changed = applyDrillResult(user.id, reviewCards, result);
+      if (changed.length > 0) {
+        const changedKeys = new Set(changed.map(c => c.key));
+        setReviewCards(prev => [...prev.filter(c => !changedKeys.has(c.key)), ...changed]);
+        saveReviewCards(changed).catch(error => console.error("Failed to save review cards:", error));
+      }
     }
-    setLastResult(result);
-    setView('analysis');
+    // The report replaces the drill in history, so Back doesn't restart it
+    showReport(result, questions, true);
+  };
+
+  // Freezes the last drill into a link carrying this result; null when it can't be replayed
+  const handleCreateChallenge = async (): Promise<string | null> => {
+    if (!user || !lastResult) return null;
+    const challenge = buildChallenge(lastResult, lastQuestions, user.name);
+    return challenge ? challengeLink(await encodeChallenge(challenge)) : null;
+  };
+
+  // Merges the export's history; its drill settings only apply to a profile that has none yet
+  const handleImportProfile = async (imported: User): Promise<number> => {
+    if (!user) return 0;
+    const added = newResults(user.history, imported.history);
+    if (added.length > 0) {
+      const saved = await importResults(user.id, added);
+      setUser(prev => (prev ? { ...prev, history: mergeHistory(prev.history, saved) } : prev));
+    }
+    if (imported.settings && !user.settings) await handleSaveDrillSettings(imported.settings);
+    return added.length;
   };
 
   const handleDrillCancel = () => {
-    setView('dashboard');
-    setCurrentTopic(null);
+    clearSession();
+    navigate({ view: 'dashboard' });
   };
 
   const handleRetry = () => {
-    if (currentTopic) {
-      setView('drill');
+    if (lastResult?.topic === MOCK_TOPIC) {
+      navigate({ view: 'mock' });
+    } else if (activeChallenge && currentTopic) {
+      navigate({ view: 'drill', topic: currentTopic }); // Same questions again
+    } else if (currentTopic === REVIEW_TOPIC) {
+      handleStartReview();
+    } else if (currentTopic) {
+      startDrill(currentTopic, drillPlan);
     } else {
-      setView('dashboard');
+      handleHome();
     }
   };
 
   const handleHome = () => {
-    setView('dashboard');
-    setCurrentTopic(null);
-    setLastResult(null);
+    clearSession();
+    navigate({ view: 'dashboard' });
+  };
+
+  const handleOpenSolutions = (result: DrillResult) => {
+    setSolutionResult(result);
+    navigate({ view: 'solutions', drillId: result.id });
+  };
+
+  // Back to wherever the solutions were opened from
+  const handleCloseSolutions = () => {
+    if (lastResult?.id === solutionResult?.id) window.history.back();
+    else handleHome();
+  };
+
+  const handleSaveDrillSettings = async (settings: DrillSettings) => {
+    if (!user) return;
+    await saveProfileSettings(user.id, settings);
+    setUser(prev => (prev ? { ...prev, settings } : prev));
+  };
+
+  const handleSaveHotkeys = (bindings: HotkeyBindings) => {
+    setHotkeys(bindings);
+    saveHotkeys(bindings);
+  };
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
   };
 
   return (
     <div className="min-h-screen bg-[#0f172a] text-slate-100 font-sans selection:bg-brand-500/30">
-      {view === 'login' && <Login onLogin={handleLogin} />}
+      {restoring && (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="w-10 h-10 animate-spin text-brand-500" />
+        </div>
+      )}
+
+      {!restoring && storageBlocked && (
+        <div className="min-h-screen flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-slate-800/50 p-8 rounded-2xl border border-slate-700 text-center space-y-4">
+            <AlertTriangle className="w-12 h-12 mx-auto text-amber-400" />
+            <p className="text-xl font-bold text-white">Close your other RapidMath tabs</p>
+            <p className="text-sm text-slate-400">{storageBlocked}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="inline-flex items-center gap-2 px-5 py-2.5 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+            >
+              <RotateCcw className="w-4 h-4" /> Reload
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!restoring && !storageBlocked && view === 'login' && (
+        <Login
+          profiles={profiles}
+          onSelect={handleLogin}
+          onCreate={handleCreateProfile}
+          onDelete={handleDeleteProfile}
+        />
+      )}
       
       {view === 'dashboard' && user && (
         <Dashboard 
           user={user} 
+          ratings={ratings}
+          questionSource={questionSource}
+          onChangeSource={setQuestionSource}
           onStartDrill={handleStartDrill} 
+          dueReviews={dueCards(reviewCards).length}
+          onStartReview={handleStartReview}
+          onStartMock={handleStartMock}
+          hotkeys={hotkeys}
+          onSaveHotkeys={handleSaveHotkeys}
+          providerSettings={providerSettings}
+          onSaveProviderSettings={handleSaveProviderSettings}
+          onImportProfile={handleImportProfile}
+          onOpenAnalytics={() => navigate({ view: 'analytics' })}
+          onStartSprint={() => navigate({ view: 'sprint' })}
+          onOpenSettings={() => navigate({ view: 'settings' })}
           onLogout={handleLogout} 
         />
       )}
 
-      {view === 'drill' && currentTopic && (
+      {view === 'drill' && user && currentTopic && (
         <DrillSession 
           topic={currentTopic}
+          provider={provider}
+          profileId={user.id}
+          presetQuestions={activeChallenge?.questions ?? (currentTopic === REVIEW_TOPIC ? reviewQuestions : undefined)}
+          difficulty={activeChallenge?.challenge.difficulty ?? (currentTopic === REVIEW_TOPIC ? 3 : drillPlan?.difficulty ?? drillDifficulty(drillSettings, ratings[currentTopic].rating))}
+          count={drillPlan?.count}
+          settings={activeChallenge?.challenge.settings ?? drillSettings}
+          scoring={activeChallenge?.challenge.scoring ?? scoringOf(drillSettings)}
+          hotkeys={hotkeys}
           onComplete={handleDrillComplete}
           onCancel={handleDrillCancel}
         />
       )}
 
+      {view === 'mock' && user && (
+        <MockTest
+          provider={provider}
+          profileId={user.id}
+          ratings={ratings}
+          scoring={scoringOf(drillSettings)}
+          onComplete={handleDrillComplete}
+          onCancel={handleDrillCancel}
+        />
+      )}
+
+      {view === 'sprint' && user && (
+        <Sprint profileId={user.id} onExit={handleHome} />
+      )}
+
+      {view === 'solutions' && solutionResult && (
+        <SolutionReview result={solutionResult} onBack={handleCloseSolutions} />
+      )}
+
+      {view === 'settings' && user && (
+        <DrillSettingsEditor settings={drillSettings} onSave={handleSaveDrillSettings} onBack={handleHome} />
+      )}
+
+      {view === 'analytics' && user && (
+        <Analytics user={user} onBack={handleHome} />
+      )}
+
       {view === 'analysis' && lastResult && (
         <Analysis 
           result={lastResult}
+          coach={provider}
           onRetry={handleRetry}
+          onStartRecommended={handleStartRecommended}
+          challenger={activeChallenge?.challenge.challenger}
+          onCreateChallenge={lastQuestions.length > 0 ? handleCreateChallenge : undefined}
+          onOpenSolutions={() => handleOpenSolutions(lastResult)}
           onHome={handleHome}
         />
       )}
@@ -1,48 +1,96 @@
 import React, { useEffect, useState } from 'react';
-import { DrillResult } from '../types';
-import { getDrillAnalysis } from '../services/gemini';
-import { Brain, RotateCcw, Home, Check, X, Zap } from 'lucide-react';
+import { AnswerOutcome, ChallengerResult, CoachProvider, CoachReport, DrillRecommendation, DrillResult } from '../types';
+import { resultStats, formatMarks, outcomeOf } from '../services/scoring';
+import { buildDrillSummary, ERROR_CATEGORY_LABELS } from '../services/coach';
+import { DIFFICULTY_LABELS } from '../services/rating';
+import { describeTimeLimit } from '../services/drillSettings';
+import { Brain, RotateCcw, Home, Check, X, Zap, Lightbulb, Target, Play, Share2, Swords, BookOpen } from 'lucide-react';
 import { motion } from 'framer-motion';
+import MathText from './MathText';
 
 interface AnalysisProps {
   result: DrillResult;
+  coach: CoachProvider;
   onRetry: () => void;
+  onStartRecommended: (recommendation: DrillRecommendation) => void;
+  challenger?: ChallengerResult; // Set when this drill came from a challenge link
+  onCreateChallenge?: () => Promise<string | null>;
+  onOpenSolutions: () => void;
   onHome: () => void;
 }
 
-const Analysis: React.FC<AnalysisProps> = ({ result, onRetry, onHome }) => {
-  const [aiAdvice, setAiAdvice] = useState<string>('');
+const OUTCOME_DOT: Record<AnswerOutcome, string> = {
+  correct: 'bg-green-500',
+  wrong: 'bg-red-500',
+  skipped: 'bg-slate-600',
+  timeout: 'bg-yellow-600'
+};
+
+const Analysis: React.FC<AnalysisProps> = ({ result, coach, onRetry, onStartRecommended, challenger, onCreateChallenge, onOpenSolutions, onHome }) => {
+  const stats = resultStats(result);
+  const [report, setReport] = useState<CoachReport | null>(null);
   const [loadingAi, setLoadingAi] = useState(true);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<'copied' | 'manual' | 'unavailable' | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
     const fetchAdvice = async () => {
-      // Filter only necessary data to save tokens and clean context
-      const simplifiedDetails = result.details.map(d => ({
-        wasCorrect: d.isCorrect,
-        timeTaken: d.timeSpent,
-        correctAnswer: d.correctAnswer
-      }));
-      
-      const advice = await getDrillAnalysis({
-        topic: result.topic,
-        score: result.score,
-        maxStreak: result.maxStreak,
-        details: simplifiedDetails
-      });
-      setAiAdvice(advice);
+      setLoadingAi(true);
+      const advice = await coach.analyzeDrill(buildDrillSummary(result));
+      if (cancelled) return;
+      setReport(advice);
       setLoadingAi(false);
     };
     fetchAdvice();
-  }, [result]);
+    return () => {
+      cancelled = true;
+    };
+  }, [result, coach]);
+
+  const handleShare = async () => {
+    if (!onCreateChallenge) return;
+    const link = await onCreateChallenge();
+    setShareLink(link);
+    if (!link) {
+      setShareStatus('unavailable');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus('copied');
+    } catch (error) {
+      console.error('Failed to copy challenge link:', error);
+      setShareStatus('manual');
+    }
+  };
+
+  const mine = { netMarks: stats.netMarks, correct: stats.correct, accuracy: Math.round(result.accuracy), timeTaken: Math.round(result.timeTaken) };
+  const verdict = !challenger
+    ? null
+    : mine.netMarks !== challenger.netMarks
+      ? mine.netMarks > challenger.netMarks
+      : mine.timeTaken !== challenger.timeTaken
+        ? mine.timeTaken < challenger.timeTaken
+        : null;
 
   return (
     <div className="max-w-4xl mx-auto w-full p-4 lg:p-8 pb-20">
       <div className="text-center mb-10">
         <h1 className="text-4xl font-bold text-white mb-2">Drill Complete</h1>
         <div className="flex justify-center items-center gap-6 my-6">
+            <div className="text-center">
+                <div className={`text-6xl font-mono font-bold ${stats.netMarks < 0 ? 'text-red-400' : 'text-brand-400'}`}>
+                    {formatMarks(stats.netMarks)}<span className="text-2xl text-slate-500">/{stats.maxMarks}</span>
+                </div>
+                <div className="text-xs text-slate-500 uppercase tracking-widest mt-1">Net Marks</div>
+            </div>
+
+            <div className="h-16 w-px bg-slate-700"></div>
+
             <div className="text-center">
                 <div className="text-6xl font-mono font-bold text-brand-400">
-                    {Math.round(result.score)}<span className="text-2xl text-slate-500">%</span>
+                    {Math.round(result.accuracy)}<span className="text-2xl text-slate-500">%</span>
                 </div>
                 <div className="text-xs text-slate-500 uppercase tracking-widest mt-1">Accuracy</div>
             </div>
@@ -57,12 +105,67 @@ const Analysis: React.FC<AnalysisProps> = ({ result, onRetry, onHome }) => {
             </div>
         </div>
         
+        <div className="flex justify-center flex-wrap gap-3 mb-4 text-xs font-mono">
+          <span className="px-3 py-1 rounded-full bg-green-900/30 text-green-400">{stats.correct} correct</span>
+          <span className="px-3 py-1 rounded-full bg-red-900/30 text-red-400">{stats.wrong} wrong</span>
+          <span className="px-3 py-1 rounded-full bg-slate-800 text-slate-400">{stats.skipped} skipped</span>
+          <span className="px-3 py-1 rounded-full bg-slate-800 text-slate-400">{stats.timedOut} timed out</span>
+          <span className="px-3 py-1 rounded-full bg-slate-800 text-slate-300">
+            {stats.attempted}/{result.totalQuestions} attempted
+          </span>
+        </div>
+
         <p className="text-slate-400">
           Time: <span className="text-white">{result.timeTaken.toFixed(1)}s</span> • 
           Avg: <span className="text-white">{(result.timeTaken / result.totalQuestions).toFixed(1)}s/q</span>
+          {result.settings && <> • {describeTimeLimit(result.settings)}</>}
         </p>
       </div>
 
+      {/* Head to head with the challenger; ties on marks go to the faster run */}
+      {challenger && (
+        <div className="mb-10 bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <Swords className="w-5 h-5 text-brand-400" /> You vs {challenger.name}
+            </h3>
+            <span className={`text-sm font-bold ${verdict === null ? 'text-slate-300' : verdict ? 'text-green-400' : 'text-red-400'}`}>
+              {verdict === null ? 'Dead heat' : verdict ? 'You win' : `${challenger.name} wins`}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-y-2 text-sm font-mono">
+            <span></span>
+            <span className="text-slate-400 text-xs uppercase tracking-widest">You</span>
+            <span className="text-slate-400 text-xs uppercase tracking-widest">{challenger.name}</span>
+            {[
+              { label: 'Net marks', you: formatMarks(mine.netMarks), them: formatMarks(challenger.netMarks) },
+              { label: 'Correct', you: mine.correct, them: challenger.correct },
+              { label: 'Accuracy', you: `${mine.accuracy}%`, them: `${challenger.accuracy}%` },
+              { label: 'Time', you: `${mine.timeTaken}s`, them: `${challenger.timeTaken}s` }
+            ].map(row => (
+              <React.Fragment key={row.label}>
+                <span className="text-slate-400">{row.label}</span>
+                <span className="text-white">{row.you}</span>
+                <span className="text-white">{row.them}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="mt-4 space-y-2">
+            {[
+              { name: 'You', outcomes: result.details.map(outcomeOf) },
+              { name: challenger.name, outcomes: challenger.outcomes }
+            ].map(row => (
+              <div key={row.name} className="flex items-center gap-2">
+                <span className="w-24 truncate text-xs text-slate-400">{row.name}</span>
+                {row.outcomes.map((outcome, i) => (
+                  <span key={i} title={`Q${i + 1}: ${outcome}`} className={`w-3 h-3 rounded-sm ${OUTCOME_DOT[outcome]}`} />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         
         {/* Question Breakdown */}
@@ -76,12 +179,13 @@ const Analysis: React.FC<AnalysisProps> = ({ result, onRetry, onHome }) => {
               key={idx} 
               className={`p-4 rounded-xl border ${q.isCorrect ? 'border-green-900/50 bg-green-900/20' : 'border-red-900/50 bg-red-900/20'} flex justify-between items-center`}
             >
-              <div className="flex items-center gap-3">
+              <div className="flex items-center gap-3 min-w-0">
                 {q.isCorrect ? <Check className="w-5 h-5 text-green-500" /> : <X className="w-5 h-5 text-red-500" />}
-                <div>
+                <div className="min-w-0">
                   <p className="text-slate-300 text-sm">Q{idx + 1}</p>
+                  {q.question && <p className="text-xs font-mono text-slate-400 truncate"><MathText text={q.question.questionText} /></p>}
                   {!q.isCorrect && (
-                    <p className="text-xs text-slate-400">Ans: {q.correctAnswer} <span className="opacity-50">(You: {q.userAnswer})</span></p>
+                    <p className="text-xs text-slate-400">Ans: <MathText text={q.correctAnswer} /> <span className="opacity-50">(You: {q.userAnswer})</span></p>
                   )}
                 </div>
               </div>
@@ -90,38 +194,121 @@ const Analysis: React.FC<AnalysisProps> = ({ result, onRetry, onHome }) => {
           ))}
         </div>
 
-        {/* AI Insight */}
-        <div className="bg-gradient-to-br from-indigo-900/50 to-purple-900/50 p-6 rounded-2xl border border-indigo-500/30">
-          <div className="flex items-center gap-2 mb-4">
-            <Brain className="w-6 h-6 text-indigo-400" />
-            <h3 className="text-xl font-bold text-white">Gemini Coach</h3>
+        {/* Coach */}
+        <div className="bg-gradient-to-br from-indigo-900/50 to-purple-900/50 p-6 rounded-2xl border border-indigo-500/30 h-fit">
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              <Brain className="w-6 h-6 text-indigo-400" />
+              <h3 className="text-xl font-bold text-white">Coach</h3>
+            </div>
+            {report?.source === 'rules' && (
+              <span className="text-[10px] uppercase tracking-wider text-slate-400" title="AI was unavailable, so these tips come from built-in rules">
+                Rule-based
+              </span>
+            )}
           </div>
           
-          <div className="text-slate-300 leading-relaxed text-sm space-y-2">
-            {loadingAi ? (
+          <div className="text-slate-300 leading-relaxed text-sm space-y-4">
+            {loadingAi || !report ? (
               <div className="flex space-x-1 animate-pulse py-4">
                 <div className="w-2 h-2 bg-indigo-400 rounded-full"></div>
                 <div className="w-2 h-2 bg-indigo-400 rounded-full animation-delay-200"></div>
                 <div className="w-2 h-2 bg-indigo-400 rounded-full animation-delay-400"></div>
               </div>
             ) : (
-              <div className="whitespace-pre-line">
-                {aiAdvice}
-              </div>
+              <>
+                <p>{report.summary}</p>
+
+                {report.mistakes.length > 0 && (
+                  <div className="space-y-2">
+                    {report.mistakes.map((m, i) => (
+                      <div key={i} className="p-3 rounded-xl bg-slate-900/40 border border-slate-700/50">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-xs font-mono text-slate-400">Q{m.questionNumber}</span>
+                          <span className="px-2 py-0.5 rounded-full bg-red-900/30 text-red-300 text-[11px]">{ERROR_CATEGORY_LABELS[m.category]}</span>
+                        </div>
+                        <p className="text-xs text-slate-300">{m.note}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {report.techniques.map((t, i) => (
+                    <div key={i} className="p-3 rounded-xl bg-indigo-950/40 border border-indigo-500/20">
+                      <p className="flex items-center gap-2 font-medium text-white text-sm mb-1">
+                        <Lightbulb className="w-4 h-4 text-yellow-400" /> {t.title}
+                      </p>
+                      <p className="text-xs text-slate-300">{t.description}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-4 rounded-xl bg-brand-600/10 border border-brand-500/40">
+                  <p className="flex items-center gap-2 text-xs uppercase tracking-wider text-brand-300 mb-2">
+                    <Target className="w-4 h-4" /> Recommended next drill
+                  </p>
+                  <p className="text-white font-bold">{report.nextDrill.topic}</p>
+                  <p className="text-xs text-slate-400 mb-2">
+                    {DIFFICULTY_LABELS[report.nextDrill.difficulty]} • {report.nextDrill.count} questions
+                  </p>
+                  <p className="text-xs text-slate-300 mb-3">{report.nextDrill.reason}</p>
+                  <button
+                    onClick={() => onStartRecommended(report.nextDrill)}
+                    className="w-full flex items-center justify-center gap-2 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold text-sm transition-colors"
+                  >
+                    <Play className="w-4 h-4" /> Start recommended drill
+                  </button>
+                </div>
+              </>
             )}
           </div>
         </div>
 
       </div>
 
+      {shareStatus && (
+        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 w-full max-w-xl px-4 z-40">
+          <div className="p-4 rounded-xl bg-slate-800 border border-slate-700 shadow-xl space-y-2">
+            <p className="text-xs text-slate-300">
+              {shareStatus === 'copied' && 'Challenge link copied. Anyone who opens it gets these exact questions.'}
+              {shareStatus === 'manual' && 'Copy this link and send it to a friend:'}
+              {shareStatus === 'unavailable' && 'This drill can\'t be turned into a challenge.'}
+            </p>
+            {shareLink && (
+              <input
+                readOnly
+                value={shareLink}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Action Bar */}
-      <div className="fixed bottom-0 left-0 right-0 p-6 bg-slate-900/80 backdrop-blur-md border-t border-slate-800 flex justify-center gap-4 z-40">
+      <div className="fixed bottom-0 left-0 right-0 p-6 bg-slate-900/80 backdrop-blur-md border-t border-slate-800 flex flex-wrap justify-center gap-4 z-40">
         <button 
           onClick={onRetry}
           className="flex items-center gap-2 px-6 py-3 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all shadow-lg shadow-brand-900/20"
         >
           <RotateCcw className="w-5 h-5" /> Retry Drill
         </button>
+        <button
+          onClick={onOpenSolutions}
+          className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all"
+        >
+          <BookOpen className="w-5 h-5" /> Solutions
+        </button>
+        {onCreateChallenge && (
+          <button
+            onClick={handleShare}
+            className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all"
+          >
+            <Share2 className="w-5 h-5" /> Challenge a Friend
+          </button>
+        )}
         <button 
           onClick={onHome}
           className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all"
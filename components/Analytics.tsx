@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { User, QuestionType } from '../types';
+import {
+  OUTCOME_BANDS,
+  answeredQuestions,
+  summarize,
+  dailyTrends,
+  scatterPoints,
+  weeklyVolume,
+  daysAgo,
+  dayKey
+} from '../services/analytics';
+import { TOPICS, TOPIC_INFO } from '../services/topics';
+import { ArrowLeft, BarChart3, Calendar } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  Legend,
+  ScatterChart,
+  Scatter,
+  ZAxis
+} from 'recharts';
+
+interface AnalyticsProps {
+  user: User;
+  onBack: () => void;
+}
+
+const RANGE_PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'All time', days: null }
+];
+
+const BAND_LABELS: Record<number, string> = Object.fromEntries(
+  Object.entries(OUTCOME_BANDS).map(([outcome, band]) => [band, outcome === 'timeout' ? 'Timed out' : outcome.charAt(0).toUpperCase() + outcome.slice(1)])
+);
+
+const tooltipProps = {
+  contentStyle: { backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' },
+  itemStyle: { color: '#f8fafc' }
+};
+
+const Analytics: React.FC<AnalyticsProps> = ({ user, onBack }) => {
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [topics, setTopics] = useState<QuestionType[]>(Object.values(QuestionType));
+
+  const answers = useMemo(
+    () => answeredQuestions(user.history, { from: from || undefined, to: to || undefined, topics }),
+    [user.history, from, to, topics]
+  );
+  const summary = summarize(answers);
+  const trends = useMemo(() => dailyTrends(answers), [answers]);
+  const scatter = useMemo(() => scatterPoints(answers), [answers]);
+  const volume = useMemo(() => weeklyVolume(answers), [answers]);
+
+  const toggleTopic = (topic: QuestionType) =>
+    setTopics(prev => (prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]));
+
+  const applyPreset = (days: number | null) => {
+    setFrom(days === null ? '' : daysAgo(days - 1));
+    setTo(days === null ? '' : dayKey(new Date()));
+  };
+
+  const shownTopics = topics.filter(t => answers.some(a => a.topic === t));
+
+  const inputClass = 'bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-brand-500';
+
+  return (
+    <div className="max-w-6xl mx-auto w-full p-4 lg:p-8 space-y-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <BarChart3 className="w-7 h-7 text-brand-400" /> Analytics
+          </h1>
+          <p className="text-slate-400 mt-1">Accuracy and speed per topic, {user.name}</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+        >
+          <ArrowLeft className="w-4 h-4" /> Dashboard
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-slate-800/50 p-4 rounded-2xl border border-slate-700 flex flex-col lg:flex-row lg:items-center gap-4 justify-between">
+        <div className="flex flex-wrap items-center gap-2">
+          <Calendar className="w-4 h-4 text-slate-400" />
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="text-slate-500 text-sm">to</span>
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          {RANGE_PRESETS.map(p => (
+            <button
+              key={p.label}
+              onClick={() => applyPreset(p.days)}
+              className="px-2 py-1 rounded-md text-xs text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TOPICS.map(({ topic }) => (
+            <button
+              key={topic}
+              onClick={() => toggleTopic(topic)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs transition-colors ${
+                topics.includes(topic) ? 'border-slate-500 text-white' : 'border-slate-700 text-slate-500'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: topics.includes(topic) ? TOPIC_INFO[topic].stroke : '#475569' }} />
+              {topic}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Drills', value: summary.drills },
+          { label: 'Questions', value: summary.questions },
+          { label: 'Accuracy', value: `${summary.accuracy.toFixed(0)}%` },
+          { label: 'Avg. sec / question', value: summary.avgSeconds.toFixed(1) }
+        ].map(card => (
+          <div key={card.label} className="bg-slate-800/50 p-5 rounded-2xl border border-slate-700">
+            <p className="text-slate-400 text-sm">{card.label}</p>
+            <p className="text-2xl font-bold text-white font-mono mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {answers.length === 0 ? (
+        <p className="text-slate-500 text-sm text-center py-12">No drills match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Accuracy trend */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-6">Accuracy by Topic (%)</h3>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trends.accuracy}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="label" stroke="#94a3b8" />
+                  <YAxis stroke="#94a3b8" domain={[0, 100]} />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  {shownTopics.map(topic => (
+                    <Line key={topic} type="monotone" dataKey={topic} stroke={TOPIC_INFO[topic].stroke} strokeWidth={2} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Speed trend */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-6">Seconds per Question</h3>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trends.speed}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="label" stroke="#94a3b8" />
+                  <YAxis stroke="#94a3b8" />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  {shownTopics.map(topic => (
+                    <Line key={topic} type="monotone" dataKey={topic} stroke={TOPIC_INFO[topic].stroke} strokeWidth={2} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Time vs correctness */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-6">Time Spent vs Outcome</h3>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis type="number" dataKey="seconds" name="Seconds" unit="s" stroke="#94a3b8" />
+                  <YAxis
+                    type="number"
+                    dataKey="band"
+                    name="Outcome"
+                    stroke="#94a3b8"
+                    domain={[-0.5, 3.5]}
+                    ticks={Object.values(OUTCOME_BANDS)}
+                    tickFormatter={(band: number) => BAND_LABELS[band] ?? ''}
+                    width={80}
+                  />
+                  <ZAxis range={[30, 30]} />
+                  <Tooltip
+                    {...tooltipProps}
+                    formatter={(value: number, name: string) => (name === 'Outcome' ? BAND_LABELS[Math.round(value)] : value)}
+                  />
+                  <Legend />
+                  {shownTopics.map(topic => (
+                    <Scatter key={topic} name={topic} data={scatter[topic]} fill={TOPIC_INFO[topic].stroke} fillOpacity={0.7} />
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Weekly volume */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-6">Weekly Volume</h3>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={volume}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="label" stroke="#94a3b8" />
+                  <YAxis stroke="#94a3b8" allowDecimals={false} />
+                  <Tooltip {...tooltipProps} cursor={{ fill: '#33415540' }} />
+                  <Legend />
+                  <Bar dataKey="drills" name="Drills" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="questions" name="Questions" fill="#10b981" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
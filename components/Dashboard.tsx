@@ -1,6 +1,19 @@
-import React from 'react';
-import { User, QuestionType } from '../types';
-import { Play, TrendingUp, Clock, Target, Award, Zap } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { User, QuestionType, QuestionSource, HotkeyBindings, ProviderSettings, TopicGroup } from '../types';
+import { Ratings, DIFFICULTY_LABELS, drillDifficulty } from '../services/rating';
+import { MOCK_QUESTION_COUNT, MOCK_DURATION_SECONDS } from './MockTest';
+import HotkeySettings from './HotkeySettings';
+import ModelSettings from './ModelSettings';
+import ProgressPanel from './ProgressPanel';
+import { PROVIDER_INFO } from '../services/providers';
+import { exportProfile, exportHistoryCsv, parseProfileExport, downloadFile } from '../services/transfer';
+import { resultStats, formatMarks } from '../services/scoring';
+import { TOPICS, TOPIC_GROUP_LABELS } from '../services/topics';
+import { SPRINT_SECONDS } from '../services/sprint';
+import { computeProgress } from '../services/progress';
+import { settingsOf } from '../services/drillSettings';
+import { routeHash } from '../services/routes';
+import { Play, TrendingUp, Clock, Target, Award, Zap, Sparkles, WifiOff, Repeat, ClipboardList, Keyboard, Cpu, Download, Upload, BarChart3, SlidersHorizontal } from 'lucide-react';
 import {
   BarChart,
   Bar,
@@ -10,16 +23,55 @@ import {
   Tooltip,
   ResponsiveContainer,
   LineChart,
-  Line
+  Line,
+  Legend
 } from 'recharts';
 
 interface DashboardProps {
   user: User;
+  ratings: Ratings;
+  questionSource: QuestionSource;
+  onChangeSource: (source: QuestionSource) => void;
   onStartDrill: (topic: QuestionType) => void;
+  dueReviews: number;
+  onStartReview: () => void;
+  onStartMock: () => void;
+  hotkeys: HotkeyBindings;
+  onSaveHotkeys: (bindings: HotkeyBindings) => void;
+  providerSettings: ProviderSettings;
+  onSaveProviderSettings: (settings: ProviderSettings) => void;
+  onImportProfile: (imported: User) => Promise<number>; // Resolves to the number of drills added
+  onOpenAnalytics: () => void;
+  onStartSprint: () => void;
+  onOpenSettings: () => void;
   onLogout: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) => {
+const Dashboard: React.FC<DashboardProps> = ({ user, ratings, questionSource, onChangeSource, onStartDrill, dueReviews, onStartReview, onStartMock, hotkeys, onSaveHotkeys, providerSettings, onSaveProviderSettings, onImportProfile, onOpenAnalytics, onStartSprint, onOpenSettings, onLogout }) => {
+  const [editingHotkeys, setEditingHotkeys] = useState(false);
+  const [editingProvider, setEditingProvider] = useState(false);
+  const [transferMessage, setTransferMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const fileStem = `rapidmath-${user.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfileExport(await file.text());
+      const added = await onImportProfile(imported);
+      setTransferMessage({
+        text: added > 0 ? `Imported ${added} drill${added === 1 ? '' : 's'} from ${imported.name}.` : 'Nothing new: every drill in that file is already here.',
+        error: false
+      });
+    } catch (error) {
+      console.error('Failed to import history:', error);
+      setTransferMessage({ text: error instanceof Error ? error.message : 'Import failed.', error: true });
+    }
+  };
+
   // Compute basic stats
   const totalDrills = user.history.length;
   const avgScore = totalDrills > 0 
@@ -27,6 +79,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
     : 0;
   
   const bestStreak = user.history.reduce((max, curr) => Math.max(max, curr.maxStreak || 0), 0);
+
+  // XP, streaks and achievements are derived from history, so imports are counted too
+  const progress = useMemo(() => computeProgress(user.history), [user.history]);
+  const drillSettings = settingsOf(user);
   
   // Recent 5 performance for chart
   const recentPerformance = user.history.slice(-5).map((h, i) => ({
@@ -35,32 +91,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
     accuracy: h.accuracy
   }));
 
-  const topics = [
-    { 
-      id: QuestionType.SIMPLIFICATION, 
-      label: 'Simplification', 
-      desc: 'Rapid fire BODMAS & calculations',
-      color: 'from-blue-500 to-indigo-600'
-    },
-    { 
-      id: QuestionType.SERIES, 
-      label: 'Number Series', 
-      desc: 'Identify missing or wrong patterns',
-      color: 'from-emerald-500 to-teal-600'
-    },
-    { 
-      id: QuestionType.QUADRATIC, 
-      label: 'Quadratic Eq.', 
-      desc: 'Root comparison (x > y, etc.)',
-      color: 'from-purple-500 to-violet-600'
-    },
-    {
-      id: QuestionType.APPROXIMATION,
-      label: 'Approximation',
-      desc: 'Estimate values quickly',
-      color: 'from-orange-500 to-pink-600'
-    }
-  ];
+  // One row per rating update, carrying every topic's latest rating forward
+  const ratingUpdates = TOPICS
+    .flatMap(t => ratings[t.topic].history.map(p => ({ topic: t.topic, ...p })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const running: Partial<Record<QuestionType, number>> = {};
+  const ratingTrend = ratingUpdates.map(u => {
+    running[u.topic] = u.rating;
+    return { name: new Date(u.date).toLocaleDateString(), ...running };
+  });
 
   return (
     <div className="max-w-6xl mx-auto w-full p-4 lg:p-8 space-y-8">
@@ -70,14 +109,56 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
           <h1 className="text-3xl font-bold text-white">Welcome back, {user.name}</h1>
           <p className="text-slate-400 mt-1">Ready to crush some numbers today?</p>
         </div>
-        <button 
-          onClick={onLogout}
-          className="px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
-        >
-          Sign Out
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setEditingProvider(true)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+          >
+            <Cpu className="w-4 h-4" /> {PROVIDER_INFO[providerSettings.provider].label}
+          </button>
+          <button
+            onClick={() => setEditingHotkeys(true)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+          >
+            <Keyboard className="w-4 h-4" /> Shortcuts
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+          >
+            <SlidersHorizontal className="w-4 h-4" /> Drill Settings
+          </button>
+          <button 
+            onClick={onLogout}
+            className="px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+          >
+            Switch Profile
+          </button>
+        </div>
       </div>
 
+      {editingHotkeys && (
+        <HotkeySettings
+          bindings={hotkeys}
+          onSave={(bindings) => {
+            onSaveHotkeys(bindings);
+            setEditingHotkeys(false);
+          }}
+          onClose={() => setEditingHotkeys(false)}
+        />
+      )}
+
+      {editingProvider && (
+        <ModelSettings
+          settings={providerSettings}
+          onSave={(settings) => {
+            onSaveProviderSettings(settings);
+            setEditingProvider(false);
+          }}
+          onClose={() => setEditingProvider(false)}
+        />
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 backdrop-blur-sm">
@@ -111,31 +192,143 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
         </div>
       </div>
 
+      <ProgressPanel progress={progress} />
+
       {/* Main Content Area: Charts & Drill Selection */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         
         {/* Left: Drill Selection */}
         <div className="lg:col-span-2 space-y-6">
-          <h2 className="text-xl font-bold text-white flex items-center gap-2">
-            <Play className="w-5 h-5 text-brand-500" /> Start a Speed Drill
-          </h2>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {topics.map((t) => (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Play className="w-5 h-5 text-brand-500" /> Start a Speed Drill
+            </h2>
+            <div className="flex p-1 rounded-lg bg-slate-800 border border-slate-700 text-xs font-medium">
               <button
-                key={t.id}
-                onClick={() => onStartDrill(t.id)}
-                className="group relative overflow-hidden rounded-2xl p-6 text-left border border-slate-700 hover:border-slate-500 transition-all hover:shadow-xl hover:-translate-y-1 bg-slate-800"
+                onClick={() => onChangeSource('ai')}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-colors ${
+                  questionSource === 'ai' ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
               >
-                <div className={`absolute inset-0 opacity-0 group-hover:opacity-10 bg-gradient-to-br ${t.color} transition-opacity`} />
-                <h3 className="text-lg font-bold text-white mb-1 group-hover:text-brand-300 transition-colors">{t.label}</h3>
-                <p className="text-sm text-slate-400">{t.desc}</p>
+                <Sparkles className="w-3.5 h-3.5" /> AI
               </button>
-            ))}
+              <button
+                onClick={() => onChangeSource('offline')}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-colors ${
+                  questionSource === 'offline' ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                <WifiOff className="w-3.5 h-3.5" /> Offline
+              </button>
+            </div>
           </div>
+          {(Object.keys(TOPIC_GROUP_LABELS) as TopicGroup[]).map(group => (
+            <div key={group} className="space-y-3">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">{TOPIC_GROUP_LABELS[group]}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {TOPICS.filter(t => t.group === group).map((t) => (
+                  <button
+                    key={t.topic}
+                    onClick={() => onStartDrill(t.topic)}
+                    className="group relative overflow-hidden rounded-2xl p-6 text-left border border-slate-700 hover:border-slate-500 transition-all hover:shadow-xl hover:-translate-y-1 bg-slate-800"
+                  >
+                    <div className={`absolute inset-0 opacity-0 group-hover:opacity-10 bg-gradient-to-br ${t.color} transition-opacity`} />
+                    <h3 className="text-lg font-bold text-white mb-1 group-hover:text-brand-300 transition-colors">{t.label}</h3>
+                    <p className="text-sm text-slate-400">{t.description}</p>
+                    <div className="mt-4 flex items-center justify-between text-xs font-mono">
+                      <span className="text-slate-300">
+                        <Target className="inline w-3.5 h-3.5 mr-1 text-slate-500" />
+                        {ratings[t.topic].rating}
+                        {ratings[t.topic].change !== 0 && (
+                          <span className={`ml-1.5 ${ratings[t.topic].change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {ratings[t.topic].change > 0 ? '+' : ''}{ratings[t.topic].change}
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-slate-500">
+                        <span className="text-yellow-400/80 mr-2">Lv {progress.topics[t.topic].level}</span>
+                        {DIFFICULTY_LABELS[drillDifficulty(drillSettings, ratings[t.topic].rating)]}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {/* Full-length sectional mock */}
+          <button
+            onClick={onStartMock}
+            className="w-full flex items-center justify-between rounded-2xl p-6 text-left border border-brand-500/40 bg-brand-500/10 hover:bg-brand-500/20 hover:-translate-y-1 hover:shadow-xl transition-all"
+          >
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-brand-500/20 rounded-xl">
+                <ClipboardList className="w-5 h-5 text-brand-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-white mb-1">Mock Test</h3>
+                <p className="text-sm text-slate-400">
+                  {MOCK_QUESTION_COUNT} mixed questions in {MOCK_DURATION_SECONDS / 60} minutes, exam-style palette
+                </p>
+              </div>
+            </div>
+          </button>
+
+          {/* Typed recall of squares, cubes, tables and fractions */}
+          <button
+            onClick={onStartSprint}
+            className="w-full flex items-center justify-between rounded-2xl p-6 text-left border border-yellow-500/40 bg-yellow-500/10 hover:bg-yellow-500/20 hover:-translate-y-1 hover:shadow-xl transition-all"
+          >
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-yellow-500/20 rounded-xl">
+                <Zap className="w-5 h-5 text-yellow-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-white mb-1">Mental-Math Sprint</h3>
+                <p className="text-sm text-slate-400">
+                  {SPRINT_SECONDS} seconds of squares, cubes, tables and fraction ↔ % recall
+                </p>
+              </div>
+            </div>
+          </button>
+
+          {/* Spaced-repetition review of past misses */}
+          <button
+            onClick={onStartReview}
+            disabled={dueReviews === 0}
+            className={`w-full flex items-center justify-between rounded-2xl p-6 text-left border transition-all ${
+              dueReviews > 0
+                ? 'border-amber-500/40 bg-amber-500/10 hover:bg-amber-500/20 hover:-translate-y-1 hover:shadow-xl'
+                : 'border-slate-800 bg-slate-800/40 cursor-not-allowed'
+            }`}
+          >
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-amber-500/20 rounded-xl">
+                <Repeat className="w-5 h-5 text-amber-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-white mb-1">Review</h3>
+                <p className="text-sm text-slate-400">
+                  {dueReviews > 0 ? 'Replay questions you missed before they slip away' : 'Nothing due. Missed questions will show up here.'}
+                </p>
+              </div>
+            </div>
+            <span className={`text-2xl font-mono font-bold ${dueReviews > 0 ? 'text-amber-400' : 'text-slate-600'}`}>
+              {dueReviews}
+            </span>
+          </button>
           
           {/* Performance Chart */}
           <div className="mt-8 bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
-            <h3 className="text-lg font-bold text-white mb-6">Recent Performance</h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-white">Recent Performance</h3>
+              <button
+                onClick={onOpenAnalytics}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-700 text-xs text-slate-300 hover:bg-slate-800 transition-colors"
+              >
+                <BarChart3 className="w-3.5 h-3.5" /> Full analytics
+              </button>
+            </div>
             <div className="h-64 w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={recentPerformance}>
@@ -151,13 +344,78 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
               </ResponsiveContainer>
             </div>
           </div>
+
+          {/* Skill Rating Chart */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-6">Skill Rating</h3>
+            {ratingTrend.length === 0 ? (
+              <p className="text-slate-500 text-sm">Complete a drill to start tracking your rating.</p>
+            ) : (
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={ratingTrend}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis dataKey="name" stroke="#94a3b8" />
+                    <YAxis stroke="#94a3b8" domain={['dataMin - 50', 'dataMax + 50']} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+                      itemStyle={{ color: '#f8fafc' }}
+                    />
+                    <Legend />
+                    {TOPICS.filter(t => ratings[t.topic].history.length > 0).map(t => (
+                      <Line
+                        key={t.topic}
+                        type="monotone"
+                        dataKey={t.topic}
+                        name={t.label}
+                        stroke={t.stroke}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Right: History */}
         <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 h-fit">
-          <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
-            <Clock className="w-5 h-5 text-slate-400" /> History
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <Clock className="w-5 h-5 text-slate-400" /> History
+            </h3>
+            <div className="flex items-center gap-1 text-xs">
+              <button
+                onClick={() => downloadFile(`${fileStem}.json`, exportProfile(user), 'application/json')}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title="Export profile as JSON (for backup or another device)"
+              >
+                <Download className="w-3.5 h-3.5" /> JSON
+              </button>
+              <button
+                onClick={() => downloadFile(`${fileStem}.csv`, exportHistoryCsv(user.history), 'text/csv')}
+                disabled={user.history.length === 0}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40"
+                title="Export every answered question as CSV"
+              >
+                <Download className="w-3.5 h-3.5" /> CSV
+              </button>
+              <button
+                onClick={() => importInput.current?.click()}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title="Import a JSON export; drills already here are skipped"
+              >
+                <Upload className="w-3.5 h-3.5" /> Import
+              </button>
+              <input ref={importInput} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            </div>
+          </div>
+          {transferMessage && (
+            <p className={`mb-4 text-xs ${transferMessage.error ? 'text-red-400' : 'text-green-400'}`}>{transferMessage.text}</p>
+          )}
           <div className="space-y-4">
             {user.history.length === 0 ? (
               <p className="text-slate-500 text-sm">No drills yet. Start one!</p>
@@ -167,13 +425,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onStartDrill, onLogout }) =
                   <div>
                     <p className="text-white font-medium text-sm">{h.topic}</p>
                     <p className="text-xs text-slate-400">{new Date(h.date).toLocaleDateString()}</p>
+                    <p className="text-xs mt-1 flex gap-3">
+                      <a href={routeHash({ view: 'analysis', drillId: h.id })} className="text-brand-400 hover:text-brand-300">Report</a>
+                      <a href={routeHash({ view: 'solutions', drillId: h.id })} className="text-brand-400 hover:text-brand-300">Solutions</a>
+                    </p>
                   </div>
                   <div className="text-right">
-                    <p className={`font-bold ${h.score >= 80 ? 'text-green-400' : 'text-yellow-400'}`}>
-                      {h.score.toFixed(0)}%
+                    <p className={`font-bold font-mono ${h.score >= 80 ? 'text-green-400' : h.score < 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                      {formatMarks(resultStats(h).netMarks)}
+                      <span className="text-xs text-slate-500">/{resultStats(h).maxMarks}</span>
                     </p>
-                    <p className="text-xs text-slate-400 flex items-center justify-end gap-1">
-                        <Zap className="w-3 h-3 text-yellow-500" /> {h.maxStreak || 0}
+                    <p className="text-xs text-slate-400 flex items-center justify-end gap-2">
+                        <span title="Accuracy (correct / attempted)">{h.accuracy.toFixed(0)}%</span>
+                        <span className="flex items-center gap-1"><Zap className="w-3 h-3 text-yellow-500" /> {h.maxStreak || 0}</span>
                     </p>
                   </div>
                 </div>
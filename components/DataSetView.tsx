@@ -0,0 +1,130 @@
+import React from 'react';
+import { DataSet } from '../types';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  LabelList,
+  ResponsiveContainer
+} from 'recharts';
+
+interface DataSetViewProps {
+  dataSet: DataSet;
+}
+
+const SERIES_COLORS = ['#0ea5e9', '#f97316', '#10b981', '#a855f7', '#ec4899', '#eab308'];
+
+const tooltipProps = {
+  contentStyle: { backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' },
+  itemStyle: { color: '#f8fafc' }
+};
+
+// The shared table or chart of a Data Interpretation set. Charts carry value labels,
+// since questions are answered from the exact figures rather than by eye.
+const DataSetView: React.FC<DataSetViewProps> = ({ dataSet }) => {
+  const rows = dataSet.categories.map((category, i) => ({
+    category,
+    ...Object.fromEntries(dataSet.series.map(s => [s.name, s.values[i]]))
+  }));
+
+  const renderChart = () => {
+    if (dataSet.kind === 'pie') {
+      const series = dataSet.series[0];
+      const slices = dataSet.categories.map((name, i) => ({ name, value: series?.values[i] ?? 0 }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie data={slices} dataKey="value" nameKey="name" outerRadius="75%" label={({ name, value }: { name: string; value: number }) => `${name}: ${value}`}>
+              {slices.map((slice, i) => (
+                <Cell key={slice.name} fill={SERIES_COLORS[i % SERIES_COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip {...tooltipProps} />
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    if (dataSet.kind === 'line') {
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 20, right: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="category" stroke="#94a3b8" />
+            <YAxis stroke="#94a3b8" />
+            <Tooltip {...tooltipProps} />
+            <Legend />
+            {dataSet.series.map((s, i) => (
+              <Line key={s.name} type="linear" dataKey={s.name} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} strokeWidth={2}>
+                <LabelList dataKey={s.name} position="top" fill="#cbd5e1" fontSize={11} />
+              </Line>
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={rows} margin={{ top: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="category" stroke="#94a3b8" />
+          <YAxis stroke="#94a3b8" />
+          <Tooltip {...tooltipProps} cursor={{ fill: '#334155' }} />
+          <Legend />
+          {dataSet.series.map((s, i) => (
+            <Bar key={s.name} dataKey={s.name} fill={SERIES_COLORS[i % SERIES_COLORS.length]} radius={[4, 4, 0, 0]}>
+              <LabelList dataKey={s.name} position="top" fill="#cbd5e1" fontSize={11} />
+            </Bar>
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-2xl border border-slate-800 p-4 mb-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-bold text-white">{dataSet.title}</h3>
+        {dataSet.unit && <span className="text-xs text-slate-500">Figures in {dataSet.unit}</span>}
+      </div>
+      {dataSet.kind === 'table' ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700">
+                <th className="text-left py-2 pr-4 font-medium" />
+                {dataSet.series.map(s => (
+                  <th key={s.name} className="text-right py-2 px-3 font-medium">{s.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dataSet.categories.map((category, i) => (
+                <tr key={category} className="border-b border-slate-800 last:border-0">
+                  <td className="py-2 pr-4 text-slate-400">{category}</td>
+                  {dataSet.series.map(s => (
+                    <td key={s.name} className="text-right py-2 px-3 text-white">{s.values[i]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="h-64 w-full">{renderChart()}</div>
+      )}
+    </div>
+  );
+};
+
+export default DataSetView;
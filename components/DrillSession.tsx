@@ -1,183 +1,205 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Loader2, Timer, ArrowRight, XCircle, CheckCircle, Zap, SkipForward } from 'lucide-react';
-import { Question, QuestionType, DrillResult } from '../types';
-import { generateQuestions } from '../services/gemini';
+import { Loader2, Timer, ArrowRight, XCircle, CheckCircle, Zap, SkipForward, WifiOff, Pause, Play, AlertTriangle, RotateCcw } from 'lucide-react';
+import { Question, QuestionType, DrillResult, DrillSettings, QuestionProvider, ScoringModel, HotkeyBindings, REVIEW_TOPIC } from '../types';
+import { LoadedQuestions, loadDrillQuestions, loadOfflineQuestions } from '../services/drillQuestions';
+import { GENERATION_ERROR_LABELS, toGenerationError } from '../services/generation';
+import { prefetchQuestions } from '../services/questionBank';
+import { DEFAULT_DRILL_SETTINGS } from '../services/drillSettings';
+import { buildDrillResult, currentQuestion, drillReducer, initialDrillState, pauseWhenHidden, secondsLeft } from '../services/drillEngine';
+import { DEFAULT_HOTKEYS, OPTION_ACTIONS, actionForKey, formatKey } from '../services/hotkeys';
+import DataSetView from './DataSetView';
+import MathText from './MathText';
 
 interface DrillSessionProps {
-  topic: QuestionType;
-  onComplete: (result: DrillResult) => void;
+  topic: QuestionType | typeof REVIEW_TOPIC;
+  provider: QuestionProvider;
+  profileId: string;
+  presetQuestions?: Question[]; // Replayed as-is instead of generating (review drills, challenges)
+  difficulty: number;
+  count?: number; // Overrides settings.questionCount, e.g. for a recommended drill
+  settings?: DrillSettings;
+  scoring?: ScoringModel;
+  hotkeys?: HotkeyBindings;
+  onComplete: (result: DrillResult, questions: Question[]) => void;
   onCancel: () => void;
 }
 
-const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel }) => {
-  const [loading, setLoading] = useState(true);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [userAnswer, setUserAnswer] = useState('');
-  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
-  
-  // Timing
-  const [startTime, setStartTime] = useState<number>(0);
-  const [questionStartTime, setQuestionStartTime] = useState<number>(0);
-  const [timeLeft, setTimeLeft] = useState(30);
-  const TOTAL_TIME_PER_Q = 30;
-
-  // Stats
-  const [results, setResults] = useState<any[]>([]);
-  const [streak, setStreak] = useState(0);
-  const [maxStreak, setMaxStreak] = useState(0);
+const DrillSession: React.FC<DrillSessionProps> = ({ topic, provider, profileId, presetQuestions, difficulty, settings = DEFAULT_DRILL_SETTINGS, count = settings.questionCount, scoring, hotkeys = DEFAULT_HOTKEYS, onComplete, onCancel }) => {
+  const [state, dispatch] = useReducer(drillReducer, { topic, difficulty, settings, scoring }, initialDrillState);
+  const [attempt, setAttempt] = useState(0);
+  const [offlineFallback, setOfflineFallback] = useState(false);
+  const { status, questions, offline, index: currentIndex, answer: userAnswer, feedback, details: results, streak } = state;
+  const paused = state.pausedAt !== null;
 
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      const data = await generateQuestions(topic, 5);
-      setQuestions(data);
-      setLoading(false);
-      setStartTime(Date.now());
-      startQuestion();
+    let cancelled = false;
+    dispatch({ type: 'load', config: { topic, difficulty, settings, scoring } });
+    const load = async (): Promise<LoadedQuestions> => {
+      if (presetQuestions || topic === REVIEW_TOPIC) return { questions: presetQuestions ?? [], offline: false };
+      if (offlineFallback) return loadOfflineQuestions(topic, count, difficulty);
+      const loaded = await loadDrillQuestions(topic, count, provider, difficulty, profileId);
+      // Stock the bank for the next drill while this one runs
+      prefetchQuestions(profileId, topic, provider, difficulty);
+      return loaded;
     };
-    loadData();
-  }, [topic]);
-
-  const startQuestion = () => {
-    setQuestionStartTime(Date.now());
-    setTimeLeft(TOTAL_TIME_PER_Q);
-    setUserAnswer('');
-  };
+    load()
+      .then(loaded => {
+        if (!cancelled) dispatch({ type: 'loaded', ...loaded, now: performance.now() });
+      })
+      .catch(error => {
+        console.error('Failed to load drill questions:', error);
+        const failure = toGenerationError(error);
+        const loadError = { message: GENERATION_ERROR_LABELS[failure.kind], detail: failure.message, retryable: failure.retryable };
+        if (!cancelled) dispatch({ type: 'failed', error: loadError });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [topic, provider, profileId, presetQuestions, difficulty, count, attempt, offlineFallback]);
 
+  // One interval for the whole drill; it only samples the clock, the engine does the timing
+  const ticking = status === 'running' && !paused;
   useEffect(() => {
-    if (loading || feedback) return;
-
-    if (timeLeft <= 0) {
-      // Time over, treat as incorrect/skip
-      handleSubmit(undefined, true);
-      return;
-    }
+    if (!ticking) return;
+    const timer = setInterval(() => dispatch({ type: 'tick', now: performance.now() }), 100);
+    return () => clearInterval(timer);
+  }, [ticking]);
 
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => prev - 1);
-    }, 1000);
+  useEffect(() => pauseWhenHidden(document, dispatch), []);
 
-    return () => clearInterval(timer);
-  }, [timeLeft, loading, feedback]);
+  useEffect(() => {
+    if (status === 'finished') onComplete(buildDrillResult(state), questions);
+  }, [status]);
 
+  // Keyboard-first: only questions without options grab focus for typing
   useEffect(() => {
-    if (!loading && !feedback && inputRef.current) {
+    if (status === 'running' && !feedback && inputRef.current && !questions[currentIndex]?.options?.length) {
       inputRef.current.focus();
     }
-  }, [loading, currentIndex, feedback]);
-
-  const handleSubmit = (e?: React.FormEvent, isTimeout: boolean = false) => {
-    e?.preventDefault();
-    if (!isTimeout && !userAnswer) return;
-
-    const currentQ = questions[currentIndex];
-    
-    // Logic for correctness
-    const normalizedUser = userAnswer.trim().toLowerCase();
-    const normalizedCorrect = currentQ.correctAnswer.trim().toLowerCase();
-    
-    // Check direct match or option index match (A, B...) if user types option letter
-    let isCorrect = normalizedUser === normalizedCorrect;
-    
-    // Also check if user selected an option button which sets userAnswer directly
-    // If the answer is "x > y", we match against that.
-    
-    if (isTimeout) isCorrect = false;
-
-    const timeSpent = (Date.now() - questionStartTime) / 1000;
-
-    // Update streak
-    if (isCorrect) {
-      const newStreak = streak + 1;
-      setStreak(newStreak);
-      if (newStreak > maxStreak) setMaxStreak(newStreak);
-    } else {
-      setStreak(0);
+  }, [status, currentIndex, feedback]);
+
+  const setUserAnswer = (answer: string) => dispatch({ type: 'input', answer });
+  const pause = () => dispatch({ type: 'pause', now: performance.now() });
+  const resume = () => dispatch({ type: 'resume', now: performance.now() });
+
+  const handleAbort = () => {
+    const wasPaused = paused;
+    pause();
+    if (window.confirm('Abort this drill? Progress in this session will be lost.')) {
+      onCancel();
+    } else if (!wasPaused) {
+      resume();
     }
-
-    setResults(prev => [...prev, {
-      questionId: currentQ.id,
-      isCorrect,
-      userAnswer: isTimeout ? 'Timeout' : userAnswer,
-      correctAnswer: currentQ.correctAnswer,
-      timeSpent
-    }]);
-
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
-
-    // Auto advance
-    setTimeout(() => {
-      setFeedback(null);
-      if (currentIndex < questions.length - 1) {
-        setCurrentIndex(prev => prev + 1);
-        startQuestion();
-      } else {
-        finishDrill(isCorrect, isTimeout ? 'Timeout' : userAnswer, timeSpent);
-      }
-    }, 1200);
   };
 
-  const handleSkip = () => {
-      handleSubmit(undefined, true); // Treat skip as timeout/incorrect for simplicity in "Speed Drill"
-  };
-
-  const finishDrill = (lastCorrect: boolean, lastAns: string, lastTime: number) => {
-    // We need to account for the last question in the results array which is updated via state
-    // But state updates are async. 
-    // Construct final list:
-    const finalResults = [...results, {
-        questionId: questions[currentIndex].id,
-        isCorrect: lastCorrect,
-        userAnswer: lastAns,
-        correctAnswer: questions[currentIndex].correctAnswer,
-        timeSpent: lastTime
-    }];
-
-    const totalTime = (Date.now() - startTime) / 1000;
-    const correctCount = finalResults.filter(r => r.isCorrect).length;
-    const score = (correctCount / questions.length) * 100;
-    
-    // Calculate max streak including last one if valid
-    let currentStreak = 0;
-    let finalMaxStreak = 0;
-    finalResults.forEach(r => {
-        if (r.isCorrect) {
-            currentStreak++;
-            if (currentStreak > finalMaxStreak) finalMaxStreak = currentStreak;
-        } else {
-            currentStreak = 0;
+  // Re-registered every render so the handler always sees current state
+  useEffect(() => {
+    if (status !== 'running') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (feedback || e.ctrlKey || e.metaKey || e.altKey) return;
+      const action = actionForKey(hotkeys, e.key);
+
+      // While typing, letters belong to the answer; Enter is handled by the form
+      if (document.activeElement === inputRef.current) {
+        if (action === 'abort') {
+          e.preventDefault();
+          inputRef.current?.blur();
         }
-    });
-
-    const drillResult: DrillResult = {
-      id: Date.now().toString(),
-      date: new Date().toISOString(),
-      topic: topic,
-      score,
-      totalQuestions: questions.length,
-      timeTaken: totalTime,
-      accuracy: score,
-      maxStreak: finalMaxStreak,
-      details: finalResults
+        return;
+      }
+      if (!action || (paused && action !== 'pause' && action !== 'abort')) return;
+      e.preventDefault();
+
+      const optionIndex = OPTION_ACTIONS.indexOf(action);
+      if (optionIndex >= 0) {
+        const option = questions[currentIndex]?.options?.[optionIndex];
+        if (option) setUserAnswer(option);
+      } else if (action === 'submit') {
+        handleSubmit();
+      } else if (action === 'skip') {
+        handleSkip();
+      } else if (action === 'pause') {
+        paused ? resume() : pause();
+      } else if (action === 'abort') {
+        handleAbort();
+      } else if (action === 'focusAnswer') {
+        inputRef.current?.focus();
+      }
     };
-    onComplete(drillResult);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    dispatch({ type: 'submit', now: performance.now() });
   };
 
-  if (loading) {
+  const handleSkip = () => dispatch({ type: 'skip', now: performance.now() });
+
+  if (status === 'loading') {
     return (
       <div className="flex flex-col items-center justify-center h-full space-y-4 text-brand-100">
         <Loader2 className="w-12 h-12 animate-spin text-brand-500" />
-        <p className="text-xl font-light animate-pulse">Consulting AI for fresh questions...</p>
+        <p className="text-xl font-light animate-pulse">
+          {provider.id === 'offline' || offlineFallback ? 'Generating offline questions...' : `Consulting ${provider.label} for fresh questions...`}
+        </p>
       </div>
     );
   }
 
-  const currentQ = questions[currentIndex];
-  const progressPercent = (timeLeft / TOTAL_TIME_PER_Q) * 100;
+  if (status === 'error' || status === 'empty') {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-4">
+        <div className="max-w-md w-full bg-slate-800/50 p-8 rounded-2xl border border-slate-700 text-center space-y-4">
+          <AlertTriangle className={`w-12 h-12 mx-auto ${status === 'error' ? 'text-red-400' : 'text-slate-500'}`} />
+          <p className="text-xl font-bold text-white">{status === 'error' ? "Couldn't load this drill" : 'No questions to drill'}</p>
+          <p className="text-sm text-slate-400">
+            {status === 'error'
+              ? state.error?.message
+              : topic === REVIEW_TOPIC
+                ? 'Nothing is due for review right now.'
+                : 'No questions came back for this topic.'}
+          </p>
+          {state.error?.detail && <p className="text-xs font-mono text-slate-500 break-words">{state.error.detail}</p>}
+          <div className="flex flex-wrap justify-center gap-3 pt-2">
+            {state.error?.retryable && (
+              <button
+                onClick={() => setAttempt(prev => prev + 1)}
+                className="flex items-center gap-2 px-5 py-2.5 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+              >
+                <RotateCcw className="w-4 h-4" /> Retry
+              </button>
+            )}
+            {/* The local generators never fail, so a drill is always one click away */}
+            {status === 'error' && topic !== REVIEW_TOPIC && (
+              <button
+                onClick={() => setOfflineFallback(true)}
+                className="flex items-center gap-2 px-5 py-2.5 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+              >
+                <WifiOff className="w-4 h-4" /> Practice offline
+              </button>
+            )}
+            <button
+              onClick={onCancel}
+              className="px-5 py-2.5 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const currentQ = currentQuestion(state)!;
+  const timeLeft = secondsLeft(state);
+  const progressPercent = (timeLeft / state.config.settings.timeLimitSeconds) * 100;
+  const clock = timeLeft >= 60 ? `${Math.floor(timeLeft / 60)}:${String(timeLeft % 60).padStart(2, '0')}` : `${timeLeft}s`;
+  const keyHint = (action: keyof HotkeyBindings) => hotkeys[action].map(formatKey).join('/');
 
   return (
     <div className="max-w-3xl mx-auto w-full p-4 flex flex-col h-full relative">
@@ -202,15 +224,28 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
         <div className="flex items-center space-x-4">
            <div className="flex items-center text-slate-300">
              <Timer className="w-4 h-4 mr-2 text-brand-400" />
-             <span className={`${timeLeft < 10 ? 'text-red-400 animate-pulse font-bold' : ''}`}>{timeLeft}s</span>
+             <span className={`${timeLeft < 10 ? 'text-red-400 animate-pulse font-bold' : ''}`}>{clock}</span>
            </div>
            <div className="flex items-center text-slate-300">
              <Zap className={`w-4 h-4 mr-2 ${streak > 1 ? 'text-yellow-400 fill-yellow-400' : 'text-slate-600'}`} />
              <span>Streak: {streak}</span>
            </div>
         </div>
-        <div className="text-slate-500">
-          Q {currentIndex + 1} / {questions.length}
+        <div className="flex items-center gap-3 text-slate-500">
+          {offline && (
+            <span className="flex items-center gap-1 text-xs text-slate-400" title="Some or all questions were generated locally">
+              <WifiOff className="w-3.5 h-3.5" /> Offline
+            </span>
+          )}
+          <span>Q {currentIndex + 1} / {questions.length}</span>
+          <button
+            onClick={() => (paused ? resume() : pause())}
+            disabled={!!feedback}
+            className="p-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40"
+            title={`${paused ? 'Resume' : 'Pause'} (${keyHint('pause')})`}
+          >
+            {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
         </div>
       </div>
 
@@ -223,7 +258,26 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
         />
       </div>
 
+      {/* Paused: the question stays hidden so the pause can't be used to think */}
+      {paused && (
+        <div className="flex-1 flex flex-col items-center justify-center min-h-[320px] bg-slate-800/50 rounded-2xl border border-slate-700 space-y-4">
+          <Pause className="w-12 h-12 text-brand-400" />
+          <p className="text-2xl font-bold text-white">Paused</p>
+          <p className="text-sm text-slate-400">The clock is stopped. Press {keyHint('pause')} to resume.</p>
+          <button
+            onClick={resume}
+            className="flex items-center gap-2 px-6 py-3 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+          >
+            <Play className="w-5 h-5" /> Resume
+          </button>
+        </div>
+      )}
+
+      {/* Shared DI dataset: outside the animated card so it stays put across the set */}
+      {!paused && currentQ.dataSet && <DataSetView dataSet={currentQ.dataSet} />}
+
       {/* Question Card */}
+      {!paused && (
       <AnimatePresence mode="wait">
         <motion.div
           key={currentIndex}
@@ -240,7 +294,7 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full h-full bg-brand-500/5 blur-[100px] rounded-full" />
              
              <p className="text-xl md:text-3xl font-mono leading-relaxed text-white whitespace-pre-line text-center relative z-10">
-              {currentQ.questionText}
+              <MathText text={currentQ.questionText} />
             </p>
           </div>
 
@@ -259,7 +313,7 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
                  >
                    <div className="absolute inset-0 w-1 bg-brand-500 opacity-0 group-hover:opacity-100 transition-opacity" />
                    <span className="font-bold text-slate-500 mr-3 font-mono text-sm">{String.fromCharCode(65 + idx)}</span>
-                   <span className="font-medium">{opt}</span>
+                   <MathText text={opt} className="font-medium" />
                  </button>
                ))}
              </div>
@@ -274,7 +328,7 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
                     type="text"
                     value={userAnswer}
                     onChange={(e) => setUserAnswer(e.target.value)}
-                    placeholder="Select option or type..."
+                    placeholder={`Pick ${keyHint('option1')}…, or press ${keyHint('focusAnswer')} to type`}
                     className="w-full bg-slate-900/50 border border-slate-600 rounded-xl py-4 px-6 text-white focus:outline-none focus:border-brand-500 focus:ring-1 focus:ring-brand-500 transition-all font-mono"
                     autoComplete="off"
                     />
@@ -296,15 +350,19 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
                     type="button"
                     onClick={handleSkip}
                     className="p-4 rounded-xl border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
-                    title="Skip Question"
+                    title={`Skip Question (${keyHint('skip')})`}
                 >
                     <SkipForward className="w-6 h-6" />
                 </button>
             </form>
+            <p className="mt-3 text-center text-[11px] text-slate-600 font-mono">
+              {OPTION_ACTIONS.map(a => hotkeys[a][0]).filter(Boolean).map(formatKey).join(' ')} pick • {keyHint('submit')} submit • {keyHint('skip')} skip • {keyHint('pause')} pause • {keyHint('abort')} abort
+            </p>
           </div>
 
         </motion.div>
       </AnimatePresence>
+      )}
 
       {/* Feedback Overlay */}
       <AnimatePresence>
@@ -324,7 +382,9 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
                 <div className="bg-red-500 text-white p-8 rounded-3xl shadow-2xl flex flex-col items-center">
                     <XCircle className="w-20 h-20 mb-2" />
                     <span className="text-2xl font-bold">Missed it!</span>
-                    <span className="mt-2 text-white/80">Correct: {currentQ.correctAnswer}</span>
+                    {state.config.settings.showAnswerOnMiss && (
+                      <span className="mt-2 text-white/80">Correct: <MathText text={currentQ.correctAnswer} /></span>
+                    )}
                  </div>
             )}
           </motion.div>
@@ -332,7 +392,7 @@ const DrillSession: React.FC<DrillSessionProps> = ({ topic, onComplete, onCancel
       </AnimatePresence>
       
       <div className="flex justify-center mt-6">
-          <button onClick={onCancel} className="text-xs text-slate-600 hover:text-slate-400 uppercase tracking-widest transition-colors">
+          <button onClick={handleAbort} className="text-xs text-slate-600 hover:text-slate-400 uppercase tracking-widest transition-colors">
             Abort Session
           </button>
       </div>
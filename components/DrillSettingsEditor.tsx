@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ArrowLeft, SlidersHorizontal, RotateCcw, Save } from 'lucide-react';
+import { DrillSettings, ScoringPresetId, TimeLimitMode } from '../types';
+import {
+  AUTO_ADVANCE_CHOICES,
+  DEFAULT_DRILL_SETTINGS,
+  MAX_DRILL_COUNT,
+  TIME_LIMIT_LABELS,
+  TIME_LIMIT_RANGE,
+  describeTimeLimit,
+  normalizeDrillSettings
+} from '../services/drillSettings';
+import { DIFFICULTY_LABELS } from '../services/rating';
+import { SCORING_PRESETS } from '../services/scoring';
+
+interface DrillSettingsEditorProps {
+  settings: DrillSettings;
+  onSave: (settings: DrillSettings) => Promise<void>;
+  onBack: () => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-sm transition-colors ${
+    active ? 'border-brand-500 bg-brand-500/20 text-white' : 'border-slate-700 text-slate-400 hover:text-white'
+  }`;
+
+const DrillSettingsEditor: React.FC<DrillSettingsEditorProps> = ({ settings, onSave, onBack }) => {
+  const [draft, setDraft] = useState<DrillSettings>(settings);
+  const [status, setStatus] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const update = (changes: Partial<DrillSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setStatus(null);
+  };
+
+  // Switching modes keeps the same total time: 30s a question becomes 5 min for 10 questions
+  const changeMode = (mode: TimeLimitMode) => {
+    if (mode === draft.timeLimitMode) return;
+    const seconds = mode === 'whole-drill' ? draft.timeLimitSeconds * draft.questionCount : Math.round(draft.timeLimitSeconds / draft.questionCount);
+    update({ timeLimitMode: mode, timeLimitSeconds: seconds });
+  };
+
+  const handleSave = async () => {
+    const normalized = normalizeDrillSettings(draft);
+    setDraft(normalized);
+    try {
+      await onSave(normalized);
+      setStatus({ text: 'Saved. New drills use these settings.' });
+    } catch (error) {
+      console.error('Failed to save drill settings:', error);
+      setStatus({ text: 'Could not save settings.', error: true });
+    }
+  };
+
+  const range = TIME_LIMIT_RANGE[draft.timeLimitMode];
+
+  return (
+    <div className="max-w-3xl mx-auto w-full p-4 lg:p-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <SlidersHorizontal className="w-7 h-7 text-brand-400" /> Drill Settings
+          </h1>
+          <p className="text-slate-400 mt-1">Saved with this profile and recorded with every drill you finish.</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+        >
+          <ArrowLeft className="w-4 h-4" /> Dashboard
+        </button>
+      </div>
+
+      <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 space-y-8">
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 mb-3">
+            Questions per drill <span className="ml-2 font-mono text-white">{draft.questionCount}</span>
+          </h3>
+          <input
+            type="range"
+            min={1}
+            max={MAX_DRILL_COUNT}
+            value={draft.questionCount}
+            onChange={(e) => update({ questionCount: Number(e.target.value) })}
+            className="w-full accent-brand-500"
+          />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 mb-3">Time limit</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(TIME_LIMIT_LABELS) as TimeLimitMode[]).map(mode => (
+              <button key={mode} onClick={() => changeMode(mode)} className={chipClass(draft.timeLimitMode === mode)}>
+                {TIME_LIMIT_LABELS[mode]}
+              </button>
+            ))}
+            <input
+              type="number"
+              min={range.min}
+              max={range.max}
+              value={draft.timeLimitSeconds}
+              onChange={(e) => update({ timeLimitSeconds: Number(e.target.value) })}
+              className="w-24 ml-2 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-brand-500"
+            />
+            <span className="text-sm text-slate-400">seconds</span>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">{describeTimeLimit(normalizeDrillSettings(draft))}</p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 mb-3">Feedback after each answer</h3>
+          <div className="flex flex-wrap gap-2">
+            {AUTO_ADVANCE_CHOICES.map(ms => (
+              <button key={ms} onClick={() => update({ autoAdvanceMs: ms })} className={chipClass(draft.autoAdvanceMs === ms)}>
+                {ms === 0 ? 'Instant' : `${ms / 1000}s`}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-3 mt-4 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.showAnswerOnMiss}
+              onChange={(e) => update({ showAnswerOnMiss: e.target.checked })}
+              className="w-4 h-4 accent-brand-500"
+            />
+            Show the correct answer after a miss
+          </label>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 mb-3">Difficulty</h3>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => update({ difficulty: 'adaptive' })} className={chipClass(draft.difficulty === 'adaptive')}>
+              Adaptive
+            </button>
+            {[1, 2, 3, 4, 5].map(level => (
+              <button key={level} onClick={() => update({ difficulty: level })} className={chipClass(draft.difficulty === level)}>
+                {DIFFICULTY_LABELS[level]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            Adaptive follows your rating in each topic. Recommended drills and challenges keep their own count and difficulty.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 mb-3">Negative marking</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SCORING_PRESETS) as ScoringPresetId[]).map(preset => (
+              <button key={preset} onClick={() => update({ scoring: preset })} className={chipClass(draft.scoring === preset)}>
+                {SCORING_PRESETS[preset].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Applies to drills and mock tests. Challenges keep the challenger's marking.</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-2 px-6 py-3 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+        >
+          <Save className="w-5 h-5" /> Save
+        </button>
+        <button
+          onClick={() => update(DEFAULT_DRILL_SETTINGS)}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+        >
+          <RotateCcw className="w-5 h-5" /> Defaults
+        </button>
+        {status && <p className={`text-sm ${status.error ? 'text-red-400' : 'text-green-400'}`}>{status.text}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DrillSettingsEditor;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { HotkeyAction, HotkeyBindings } from '../types';
+import { DEFAULT_HOTKEYS, HOTKEY_LABELS, bindKey, unbindKey, formatKey } from '../services/hotkeys';
+import { Keyboard, X, Plus, RotateCcw } from 'lucide-react';
+
+interface HotkeySettingsProps {
+  bindings: HotkeyBindings;
+  onSave: (bindings: HotkeyBindings) => void;
+  onClose: () => void;
+}
+
+const HotkeySettings: React.FC<HotkeySettingsProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<HotkeyBindings>(bindings);
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+
+  // The next key pressed while capturing becomes a binding for that action
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (['shift', 'control', 'alt', 'meta'].includes(e.key.toLowerCase())) return;
+      setDraft(prev => bindKey(prev, capturing, e.key));
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing]);
+
+  const actions = Object.keys(HOTKEY_LABELS) as HotkeyAction[];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-brand-400" /> Drill Shortcuts
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-2 max-h-[60vh] overflow-y-auto">
+          {actions.map(action => (
+            <div key={action} className="flex items-center justify-between gap-4 py-1.5">
+              <span className="text-sm text-slate-300">{HOTKEY_LABELS[action]}</span>
+              <div className="flex flex-wrap items-center justify-end gap-1.5">
+                {draft[action].map(key => (
+                  <span key={key} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-slate-900 border border-slate-600 text-xs font-mono text-white">
+                    {formatKey(key)}
+                    <button
+                      onClick={() => setDraft(prev => unbindKey(prev, action, key))}
+                      className="text-slate-500 hover:text-red-400"
+                      title={`Remove ${formatKey(key)}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => setCapturing(action)}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs transition-colors ${
+                    capturing === action
+                      ? 'border-brand-500 text-brand-400 animate-pulse'
+                      : 'border-slate-700 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {capturing === action ? 'Press a key…' : <><Plus className="w-3 h-3" /> Add</>}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t border-slate-700">
+          <button
+            onClick={() => setDraft(DEFAULT_HOTKEYS)}
+            className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" /> Reset to defaults
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-5 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold text-sm transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HotkeySettings;
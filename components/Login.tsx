@@ -1,21 +1,29 @@
 import React, { useState } from 'react';
 import { User } from '../types';
-import { Zap } from 'lucide-react';
+import { Zap, UserPlus, Trash2, ChevronRight } from 'lucide-react';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
+  profiles: User[];
+  onSelect: (user: User) => void;
+  onCreate: (name: string) => void;
+  onDelete: (user: User) => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC<LoginProps> = ({ profiles, onSelect, onCreate, onDelete }) => {
   const [name, setName] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim()) {
-      onLogin({
-        name: name.trim(),
-        history: []
-      });
+      onCreate(name.trim());
+      setName('');
+    }
+  };
+
+  const handleDelete = (user: User) => {
+    const drills = user.history.length;
+    if (window.confirm(`Delete ${user.name}'s profile and ${drills} drill${drills === 1 ? '' : 's'}? This cannot be undone.`)) {
+      onDelete(user);
     }
   };
 
@@ -36,10 +44,42 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
           <p className="text-slate-400 mt-2 text-center">Master IBPS speed drills with AI</p>
         </div>
 
+        {/* Existing profiles */}
+        {profiles.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-sm font-medium text-slate-300 mb-3">Choose your profile</h2>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {profiles.map((p) => (
+                <div key={p.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => onSelect(p)}
+                    className="group flex-1 flex items-center justify-between p-3 rounded-xl bg-slate-900/50 border border-slate-700 hover:border-brand-500 transition-all text-left"
+                  >
+                    <div>
+                      <p className="text-white font-medium">{p.name}</p>
+                      <p className="text-xs text-slate-400">
+                        {p.history.length} drill{p.history.length === 1 ? '' : 's'} completed
+                      </p>
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-slate-500 group-hover:text-brand-400 transition-colors" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(p)}
+                    className="p-3 rounded-xl border border-slate-700 text-slate-500 hover:text-red-400 hover:border-red-900/50 transition-colors"
+                    title={`Delete ${p.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label htmlFor="name" className="block text-sm font-medium text-slate-300 mb-2">
-              Aspirant Name
+              {profiles.length > 0 ? 'New Aspirant' : 'Aspirant Name'}
             </label>
             <input
               id="name"
@@ -53,12 +93,12 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
           </div>
           <button
             type="submit"
-            className="w-full bg-brand-600 hover:bg-brand-500 text-white font-bold py-3.5 rounded-xl transition-all transform hover:scale-[1.02] shadow-lg shadow-brand-900/20"
+            className="w-full flex items-center justify-center gap-2 bg-brand-600 hover:bg-brand-500 text-white font-bold py-3.5 rounded-xl transition-all transform hover:scale-[1.02] shadow-lg shadow-brand-900/20"
           >
-            Start Training
+            <UserPlus className="w-5 h-5" /> {profiles.length > 0 ? 'Create Profile' : 'Start Training'}
           </button>
         </form>
-        
+
         <div className="mt-8 text-center text-xs text-slate-500">
           Powered by Google Gemini 2.5 Flash
         </div>
@@ -67,4 +107,4 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   );
 };
 
-export default Login;
\ No newline at end of file
+export default Login;
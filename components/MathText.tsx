@@ -0,0 +1,39 @@
+import React from 'react';
+import { MathNode, hasMathMarkup, parseMath } from '../services/mathMarkup';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+const renderNodes = (nodes: MathNode[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.kind) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'sup':
+        return <sup key={i} className="text-[0.65em] leading-none">{renderNodes(node.children)}</sup>;
+      case 'root':
+        return (
+          <span key={i} className="inline-flex items-baseline whitespace-nowrap">
+            {node.degree === 3 ? '∛' : '√'}
+            <span className="border-t border-current pt-[0.05em] px-[0.1em]">{renderNodes(node.children)}</span>
+          </span>
+        );
+      case 'frac':
+        return (
+          <span key={i} className="inline-flex flex-col items-center align-middle text-[0.8em] leading-tight mx-[0.15em]">
+            <span className="px-[0.2em]">{renderNodes(node.numerator)}</span>
+            <span className="px-[0.2em] border-t border-current w-full text-center">{renderNodes(node.denominator)}</span>
+          </span>
+        );
+    }
+  });
+
+// Falls back to the raw text whenever the markup doesn't parse, so nothing is ever lost
+const MathText: React.FC<MathTextProps> = ({ text, className }) => {
+  const nodes = hasMathMarkup(text) ? parseMath(text) : null;
+  return <span className={className}>{nodes ? renderNodes(nodes) : text}</span>;
+};
+
+export default MathText;
@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, Timer, Flag, ChevronRight, ChevronLeft, Eraser, Send, WifiOff } from 'lucide-react';
+import { Question, QuestionType, DrillResult, DrillDetail, QuestionProvider, ScoringModel, MOCK_TOPIC } from '../types';
+import { loadDrillQuestions, loadOfflineQuestions } from '../services/drillQuestions';
+import { prefetchQuestions } from '../services/questionBank';
+import { Ratings, targetDifficulty } from '../services/rating';
+import { scoreDrill } from '../services/scoring';
+import { matchAnswer } from '../services/answerMatch';
+import DataSetView from './DataSetView';
+import MathText from './MathText';
+
+// IBPS prelims quant: one mixed section, 35 questions in 20 minutes
+export const MOCK_QUESTION_COUNT = 35;
+export const MOCK_DURATION_SECONDS = 20 * 60;
+
+interface MockTestProps {
+  provider: QuestionProvider;
+  profileId: string;
+  ratings: Ratings;
+  scoring?: ScoringModel;
+  onComplete: (result: DrillResult) => void;
+  onCancel: () => void;
+}
+
+interface Attempt {
+  answer: string | null;
+  visits: number;
+  timeSpent: number; // in seconds
+  marked: boolean;
+}
+
+type PaletteStatus = 'notVisited' | 'notAnswered' | 'answered' | 'marked' | 'answeredMarked';
+
+const PALETTE_STYLES: Record<PaletteStatus, string> = {
+  notVisited: 'bg-slate-700 text-slate-300 border-slate-600',
+  notAnswered: 'bg-red-500/80 text-white border-red-400',
+  answered: 'bg-green-500/80 text-white border-green-400',
+  marked: 'bg-purple-600 text-white border-purple-400',
+  answeredMarked: 'bg-purple-600 text-white border-green-400 ring-2 ring-green-400'
+};
+
+const PALETTE_LABELS: Record<PaletteStatus, string> = {
+  notVisited: 'Not Visited',
+  notAnswered: 'Not Answered',
+  answered: 'Answered',
+  marked: 'Marked for Review',
+  answeredMarked: 'Answered & Marked'
+};
+
+const paletteStatus = (a: Attempt): PaletteStatus => {
+  if (a.visits === 0) return 'notVisited';
+  if (a.marked) return a.answer ? 'answeredMarked' : 'marked';
+  return a.answer ? 'answered' : 'notAnswered';
+};
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const MockTest: React.FC<MockTestProps> = ({ provider, profileId, ratings, scoring, onComplete, onCancel }) => {
+  const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [remaining, setRemaining] = useState(MOCK_DURATION_SECONDS);
+
+  const startedAt = useRef(0);
+  const enteredAt = useRef(0);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadData = async () => {
+      setLoading(true);
+      // Spread the section across every topic, grouped by topic like the real paper
+      const topics = Object.values(QuestionType);
+      const batches = await Promise.all(
+        topics.map((topic, i) => {
+          const count = Math.floor(MOCK_QUESTION_COUNT / topics.length) + (i < MOCK_QUESTION_COUNT % topics.length ? 1 : 0);
+          const difficulty = targetDifficulty(ratings[topic].rating);
+          // One failing topic shouldn't hold up the whole paper
+          return loadDrillQuestions(topic, count, provider, difficulty, profileId).catch(error => {
+            console.error(`Failed to load ${topic} questions, using offline ones:`, error);
+            return loadOfflineQuestions(topic, count, difficulty);
+          });
+        })
+      );
+      if (cancelled) return;
+      const all = batches.flatMap(b => b.questions);
+      setQuestions(all);
+      setOffline(batches.some(b => b.offline));
+      setAttempts(all.map((_, i) => ({ answer: null, visits: i === 0 ? 1 : 0, timeSpent: 0, marked: false })));
+      setCurrent(0);
+      const now = Date.now();
+      startedAt.current = now;
+      enteredAt.current = now;
+      setLoading(false);
+      // Refill every topic in the background; a mock drains the bank quickly
+      for (const topic of topics) prefetchQuestions(profileId, topic, provider, targetDifficulty(ratings[topic].rating));
+    };
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, profileId, ratings]);
+
+  // One countdown for the whole section, derived from the wall clock so it can't drift
+  useEffect(() => {
+    if (loading) return;
+    const tick = () => {
+      const elapsed = (Date.now() - startedAt.current) / 1000;
+      setRemaining(Math.max(0, Math.ceil(MOCK_DURATION_SECONDS - elapsed)));
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [loading]);
+
+  useEffect(() => {
+    if (!loading && remaining <= 0) finishTest();
+  }, [remaining, loading]);
+
+  // Adds the time spent on the open question, then applies `update` to the attempt list
+  const withElapsed = (update: (list: Attempt[]) => Attempt[]) => {
+    const now = Date.now();
+    const elapsed = (now - enteredAt.current) / 1000;
+    enteredAt.current = now;
+    setAttempts(prev => update(prev.map((a, i) => (i === current ? { ...a, timeSpent: a.timeSpent + elapsed } : a))));
+  };
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= questions.length || index === current) return;
+    withElapsed(list => list.map((a, i) => (i === index ? { ...a, visits: a.visits + 1 } : a)));
+    setCurrent(index);
+  };
+
+  const updateCurrent = (patch: Partial<Attempt>) =>
+    setAttempts(prev => prev.map((a, i) => (i === current ? { ...a, ...patch } : a)));
+
+  const handleSaveNext = () => {
+    updateCurrent({ marked: false });
+    goTo(Math.min(current + 1, questions.length - 1));
+  };
+
+  const handleMarkNext = () => {
+    updateCurrent({ marked: true });
+    goTo(Math.min(current + 1, questions.length - 1));
+  };
+
+  const finishTest = () => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const elapsed = (Date.now() - enteredAt.current) / 1000;
+    const finalAttempts = attempts.map((a, i) => (i === current ? { ...a, timeSpent: a.timeSpent + elapsed } : a));
+
+    const details: DrillDetail[] = questions.map((q, i) => {
+      const a = finalAttempts[i];
+      const match = a.answer === null ? null : matchAnswer(a.answer, q);
+      const isCorrect = !!match?.isCorrect;
+      return {
+        questionId: q.id,
+        isCorrect,
+        outcome: a.answer === null ? 'skipped' : isCorrect ? 'correct' : 'wrong',
+        matchMethod: match?.method ?? 'none',
+        userAnswer: a.answer ?? 'Skipped',
+        correctAnswer: q.correctAnswer,
+        timeSpent: a.timeSpent,
+        type: q.type,
+        difficulty: q.difficulty,
+        question: q,
+        visits: a.visits,
+        markedForReview: a.marked
+      };
+    });
+
+    let streak = 0;
+    let maxStreak = 0;
+    details.forEach(d => {
+      streak = d.isCorrect ? streak + 1 : 0;
+      maxStreak = Math.max(maxStreak, streak);
+    });
+
+    const { score, accuracy, stats, scoring: model } = scoreDrill(details, scoring);
+    onComplete({
+      id: Date.now().toString(),
+      date: new Date().toISOString(),
+      topic: MOCK_TOPIC,
+      score,
+      totalQuestions: questions.length,
+      timeTaken: Math.min(MOCK_DURATION_SECONDS, (Date.now() - startedAt.current) / 1000),
+      accuracy,
+      maxStreak,
+      stats,
+      scoring: model,
+      details
+    });
+  };
+
+  const handleSubmit = () => {
+    const answered = attempts.filter(a => a.answer).length;
+    if (window.confirm(`Submit the section? ${answered} of ${questions.length} questions answered.`)) {
+      finishTest();
+    }
+  };
+
+  const handleAbort = () => {
+    if (window.confirm('Abort this mock test? Your answers will be discarded.')) onCancel();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full min-h-screen space-y-4 text-brand-100">
+        <Loader2 className="w-12 h-12 animate-spin text-brand-500" />
+        <p className="text-xl font-light animate-pulse">Assembling your {MOCK_QUESTION_COUNT}-question section...</p>
+      </div>
+    );
+  }
+
+  const q = questions[current];
+  const attempt = attempts[current];
+  const counts = attempts.reduce((acc, a) => {
+    const status = paletteStatus(a);
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<PaletteStatus, number>>);
+
+  return (
+    <div className="max-w-6xl mx-auto w-full p-4 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">{MOCK_TOPIC}</h1>
+          <p className="text-sm text-slate-400 flex items-center gap-2">
+            Quantitative Aptitude • {questions.length} questions
+            {offline && (
+              <span className="flex items-center gap-1 text-xs" title="Some or all questions were generated locally">
+                <WifiOff className="w-3.5 h-3.5" /> Offline
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className={`flex items-center gap-2 px-4 py-2 rounded-xl font-mono text-lg border ${
+            remaining < 120 ? 'border-red-500/50 text-red-400 animate-pulse' : 'border-slate-700 text-white'
+          }`}>
+            <Timer className="w-5 h-5" /> {formatClock(remaining)}
+          </div>
+          <button
+            onClick={handleSubmit}
+            className="flex items-center gap-2 px-5 py-2.5 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+          >
+            <Send className="w-4 h-4" /> Submit
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Question */}
+        <div className="lg:col-span-2 space-y-6">
+          {q.dataSet && <DataSetView dataSet={q.dataSet} />}
+          <div className="bg-slate-800/50 p-6 md:p-8 rounded-2xl border border-slate-700">
+            <div className="flex justify-between items-center mb-4 text-xs uppercase tracking-widest">
+              <span className="text-brand-500 font-bold">Question {current + 1}</span>
+              <span className="text-slate-500">{q.type}</span>
+            </div>
+            <p className="text-xl md:text-2xl font-mono leading-relaxed text-white whitespace-pre-line mb-8">
+              <MathText text={q.questionText} />
+            </p>
+            <div className="space-y-3">
+              {q.options?.map((opt, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => updateCurrent({ answer: opt })}
+                  className={`w-full p-4 rounded-xl text-left border transition-all ${
+                    attempt.answer === opt
+                      ? 'border-brand-500 bg-brand-500/20 text-white'
+                      : 'border-slate-700 bg-slate-800/50 text-slate-300 hover:border-slate-500'
+                  }`}
+                >
+                  <span className="font-bold text-slate-500 mr-3 font-mono text-sm">{String.fromCharCode(65 + idx)}</span>
+                  <MathText text={opt} className="font-medium" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleMarkNext}
+              className="flex items-center gap-2 px-4 py-3 rounded-xl border border-purple-500/50 text-purple-300 hover:bg-purple-500/10 transition-colors text-sm font-medium"
+            >
+              <Flag className="w-4 h-4" /> Mark for Review & Next
+            </button>
+            <button
+              onClick={() => updateCurrent({ answer: null })}
+              className="flex items-center gap-2 px-4 py-3 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm font-medium"
+            >
+              <Eraser className="w-4 h-4" /> Clear Response
+            </button>
+            <div className="flex-1" />
+            <button
+              onClick={() => goTo(current - 1)}
+              disabled={current === 0}
+              className="p-3 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-40 transition-colors"
+              title="Previous"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleSaveNext}
+              className="flex items-center gap-2 px-5 py-3 rounded-xl bg-green-600 hover:bg-green-500 text-white transition-colors text-sm font-bold"
+            >
+              Save & Next <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Question Palette */}
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 h-fit">
+          <h3 className="text-lg font-bold text-white mb-4">Question Palette</h3>
+          <div className="grid grid-cols-5 gap-2 mb-6">
+            {attempts.map((a, idx) => (
+              <button
+                key={idx}
+                onClick={() => goTo(idx)}
+                className={`h-10 rounded-lg border font-mono text-sm font-bold transition-transform hover:scale-105 ${
+                  PALETTE_STYLES[paletteStatus(a)]
+                } ${idx === current ? 'outline outline-2 outline-offset-2 outline-brand-400' : ''}`}
+              >
+                {idx + 1}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2 text-xs">
+            {(Object.keys(PALETTE_LABELS) as PaletteStatus[]).map(status => (
+              <div key={status} className="flex items-center gap-2 text-slate-400">
+                <span className={`w-5 h-5 rounded border ${PALETTE_STYLES[status]}`} />
+                <span className="flex-1">{PALETTE_LABELS[status]}</span>
+                <span className="font-mono text-slate-300">{counts[status] || 0}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-center mt-8">
+        <button onClick={handleAbort} className="text-xs text-slate-600 hover:text-slate-400 uppercase tracking-widest transition-colors">
+          Abort Test
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MockTest;
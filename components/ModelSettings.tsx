@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDER_INFO } from '../services/providers';
+import { OPENAI_DEFAULT_BASE_URL } from '../services/openaiCompatible';
+import { Cpu, X } from 'lucide-react';
+
+interface ModelSettingsProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const info = PROVIDER_INFO[draft.provider];
+
+  const selectProvider = (provider: ProviderId) => {
+    // Carry the model over only when staying on the same backend
+    setDraft(prev => ({ ...prev, provider, model: provider === prev.provider ? prev.model : PROVIDER_INFO[provider].defaultModel }));
+  };
+
+  const inputClass = 'w-full bg-slate-900/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-brand-400" /> Question Provider
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(PROVIDER_INFO) as ProviderId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => selectProvider(id)}
+                className={`p-3 rounded-xl border text-left transition-colors ${
+                  draft.provider === id ? 'border-brand-500 bg-brand-600/10' : 'border-slate-700 hover:border-slate-500'
+                }`}
+              >
+                <p className="text-sm font-medium text-white">{PROVIDER_INFO[id].label}</p>
+                <p className="text-xs text-slate-400 mt-1">{PROVIDER_INFO[id].description}</p>
+              </button>
+            ))}
+          </div>
+
+          {draft.provider === 'openai' && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Base URL</label>
+                <input
+                  value={draft.baseUrl ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                  placeholder={OPENAI_DEFAULT_BASE_URL}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">API key (optional for local servers)</label>
+                <input
+                  type="password"
+                  value={draft.apiKey ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          {info.defaultModel && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">Model</label>
+              <input
+                value={draft.model}
+                onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+                placeholder={info.defaultModel}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end p-5 border-t border-slate-700">
+          <button
+            onClick={() => onSave({ ...draft, model: draft.model.trim() || info.defaultModel })}
+            className="px-5 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold text-sm transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Flame, Trophy, Lock, Star } from 'lucide-react';
+import { ProgressSummary } from '../services/progress';
+
+interface ProgressPanelProps {
+  progress: ProgressSummary;
+}
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Shades by questions answered that day
+const heatClass = (count: number) => {
+  if (count === 0) return 'bg-slate-800';
+  if (count < 10) return 'bg-emerald-900';
+  if (count < 25) return 'bg-emerald-700';
+  if (count < 50) return 'bg-emerald-500';
+  return 'bg-emerald-400';
+};
+
+const ProgressPanel: React.FC<ProgressPanelProps> = ({ progress }) => {
+  const { total, currentStreak, longestStreak, heatmap, achievements } = progress;
+  const unlocked = achievements.filter(a => a.unlockedAt).length;
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 space-y-6">
+      {/* Level and streak */}
+      <div className="flex flex-col md:flex-row md:items-center gap-6">
+        <div className="flex-1">
+          <div className="flex items-baseline justify-between mb-2">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <Star className="w-5 h-5 text-yellow-400" /> Level {total.level}
+            </h3>
+            <span className="text-xs font-mono text-slate-400">
+              {total.intoLevel} / {total.forNextLevel} XP · {total.xp} total
+            </span>
+          </div>
+          <div className="h-2 w-full bg-slate-900 rounded-full overflow-hidden">
+            <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${(total.intoLevel / total.forNextLevel) * 100}%` }} />
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${currentStreak > 0 ? 'bg-orange-500/20' : 'bg-slate-700/50'}`}>
+            <Flame className={`w-5 h-5 ${currentStreak > 0 ? 'text-orange-400' : 'text-slate-500'}`} />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-white leading-none">
+              {currentStreak} <span className="text-sm font-medium text-slate-400">day{currentStreak === 1 ? '' : 's'}</span>
+            </p>
+            <p className="text-xs text-slate-500">Best {longestStreak}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Daily practice heatmap */}
+      <div className="overflow-x-auto">
+        <div className="flex gap-1 w-max">
+          <div className="flex flex-col gap-1 mr-1">
+            {WEEKDAY_LABELS.map((label, i) => (
+              <span key={i} className="h-3 text-[9px] leading-3 text-slate-500">{label}</span>
+            ))}
+          </div>
+          {heatmap.map((week, w) => (
+            <div key={w} className="flex flex-col gap-1">
+              {week.map((cell, d) =>
+                cell ? (
+                  <div
+                    key={d}
+                    title={`${cell.day}: ${cell.count} question${cell.count === 1 ? '' : 's'}`}
+                    className={`w-3 h-3 rounded-sm ${heatClass(cell.count)}`}
+                  />
+                ) : (
+                  <div key={d} className="w-3 h-3" />
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Achievements */}
+      <div>
+        <h3 className="text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">
+          <Trophy className="w-4 h-4 text-yellow-400" /> Achievements
+          <span className="text-xs font-normal text-slate-500">{unlocked} / {achievements.length}</span>
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {achievements.map(({ achievement, progress: value, unlockedAt }) => (
+            <div
+              key={achievement.id}
+              className={`p-3 rounded-xl border ${unlockedAt ? 'border-yellow-500/40 bg-yellow-500/10' : 'border-slate-700 bg-slate-900/30'}`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                {unlockedAt ? <Trophy className="w-4 h-4 text-yellow-400" /> : <Lock className="w-4 h-4 text-slate-500" />}
+                <span className={`text-sm font-bold ${unlockedAt ? 'text-white' : 'text-slate-400'}`}>{achievement.title}</span>
+              </div>
+              <p className="text-xs text-slate-400">{achievement.description}</p>
+              {unlockedAt ? (
+                <p className="text-[10px] text-yellow-300/80 mt-2">Unlocked {new Date(unlockedAt).toLocaleDateString()}</p>
+              ) : (
+                achievement.target > 1 && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-slate-500" style={{ width: `${(value / achievement.target) * 100}%` }} />
+                    </div>
+                    <span className="text-[10px] font-mono text-slate-500">{value}/{achievement.target}</span>
+                  </div>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressPanel;
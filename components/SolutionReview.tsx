@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ArrowLeft, BookOpen, Check, X, Clock, Lightbulb, SkipForward, Timer } from 'lucide-react';
+import { AnswerOutcome, DrillResult } from '../types';
+import { outcomeOf } from '../services/scoring';
+import { resolveOptionLetter } from '../services/answerMatch';
+import { SOLUTION_FILTER_LABELS, SolutionFilter, filterSolutions, isSlow } from '../services/solutions';
+import { resultTimeBudget } from '../services/drillSettings';
+import DataSetView from './DataSetView';
+import MathText from './MathText';
+
+interface SolutionReviewProps {
+  result: DrillResult;
+  onBack: () => void;
+}
+
+const OUTCOME_BADGES: Record<AnswerOutcome, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-green-900/30 text-green-400' },
+  wrong: { label: 'Wrong', className: 'bg-red-900/30 text-red-400' },
+  skipped: { label: 'Skipped', className: 'bg-slate-800 text-slate-400' },
+  timeout: { label: 'Timed out', className: 'bg-yellow-900/30 text-yellow-400' }
+};
+
+const OUTCOME_ICONS: Record<AnswerOutcome, React.ReactNode> = {
+  correct: <Check className="w-3.5 h-3.5" />,
+  wrong: <X className="w-3.5 h-3.5" />,
+  skipped: <SkipForward className="w-3.5 h-3.5" />,
+  timeout: <Timer className="w-3.5 h-3.5" />
+};
+
+const FILTERS = Object.keys(SOLUTION_FILTER_LABELS) as SolutionFilter[];
+
+const SolutionReview: React.FC<SolutionReviewProps> = ({ result, onBack }) => {
+  const [filter, setFilter] = useState<SolutionFilter>('all');
+  const shown = filterSolutions(result, filter);
+
+  return (
+    <div className="max-w-4xl mx-auto w-full p-4 lg:p-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <BookOpen className="w-7 h-7 text-brand-400" /> Solutions
+          </h1>
+          <p className="text-slate-400 mt-1">
+            {result.topic} · {new Date(result.date).toLocaleString()}
+          </p>
+        </div>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+        >
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${
+              filter === f ? 'border-brand-500 bg-brand-500/20 text-white' : 'border-slate-700 text-slate-400 hover:text-white'
+            }`}
+          >
+            {SOLUTION_FILTER_LABELS[f]} <span className="text-slate-500 font-mono">{filterSolutions(result, f).length}</span>
+          </button>
+        ))}
+      </div>
+
+      {shown.length === 0 && (
+        <p className="text-slate-500 text-sm">Nothing to show: no question in this drill matches the filter.</p>
+      )}
+
+      {shown.map(({ number, detail }) => {
+        const outcome = outcomeOf(detail);
+        const question = detail.question;
+        const picked = question?.options?.includes(detail.userAnswer)
+          ? detail.userAnswer
+          : resolveOptionLetter(detail.userAnswer, question?.options);
+        const badge = OUTCOME_BADGES[outcome];
+
+        return (
+          <div key={number} className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 space-y-4">
+            <div className="flex items-center justify-between gap-3 text-xs">
+              <span className="font-mono text-slate-400">Q{number}{question ? ` · ${question.type}` : ''}</span>
+              <div className="flex items-center gap-2">
+                <span className={`flex items-center gap-1 font-mono ${isSlow(detail, resultTimeBudget(result)) ? 'text-yellow-400' : 'text-slate-400'}`}>
+                  <Clock className="w-3.5 h-3.5" /> {detail.timeSpent.toFixed(1)}s
+                </span>
+                <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${badge.className}`}>
+                  {OUTCOME_ICONS[outcome]} {badge.label}
+                </span>
+              </div>
+            </div>
+
+            {!question ? (
+              // Results saved before full snapshots only kept the question for misses
+              <p className="text-sm text-slate-400">
+                The question wasn't saved with this result. Answer: <span className="text-white font-mono">{detail.correctAnswer}</span>
+                {detail.userAnswer && <> · You: <span className="font-mono">{detail.userAnswer}</span></>}
+              </p>
+            ) : (
+              <>
+                {question.dataSet && <DataSetView dataSet={question.dataSet} />}
+                <p className="text-lg font-mono text-white whitespace-pre-line"><MathText text={question.questionText} /></p>
+
+                {question.options ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {question.options.map((opt, idx) => {
+                      const isKey = opt === question.correctAnswer;
+                      const isPicked = opt === picked;
+                      return (
+                        <div
+                          key={idx}
+                          className={`p-3 rounded-xl border text-sm flex items-center justify-between gap-2 ${
+                            isKey
+                              ? 'border-green-600/60 bg-green-900/20 text-white'
+                              : isPicked
+                                ? 'border-red-600/60 bg-red-900/20 text-white'
+                                : 'border-slate-700 text-slate-400'
+                          }`}
+                        >
+                          <span>
+                            <span className="font-bold text-slate-500 mr-3 font-mono">{String.fromCharCode(65 + idx)}</span>
+                            <MathText text={opt} />
+                          </span>
+                          <span className="text-[10px] uppercase tracking-wider">
+                            {isKey && isPicked ? 'Your answer ✓' : isKey ? 'Correct' : isPicked ? 'Your answer' : ''}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-300">
+                    Answer: <MathText text={question.correctAnswer} className="text-white font-mono" />
+                  </p>
+                )}
+
+                {/* Typed answers that didn't resolve to an option */}
+                {detail.userAnswer && !picked && outcome !== 'skipped' && outcome !== 'timeout' && (
+                  <p className="text-xs text-slate-400">
+                    You typed <span className="font-mono text-white">{detail.userAnswer}</span>
+                  </p>
+                )}
+
+                {(question.explanation || question.formula) && (
+                  <div className="p-4 rounded-xl bg-indigo-950/40 border border-indigo-500/20 space-y-2">
+                    <p className="flex items-center gap-2 text-xs uppercase tracking-wider text-indigo-300">
+                      <Lightbulb className="w-4 h-4 text-yellow-400" /> Solution
+                    </p>
+                    {question.explanation && (
+                      <p className="text-sm text-slate-300 whitespace-pre-line leading-relaxed"><MathText text={question.explanation} /></p>
+                    )}
+                    {question.formula && <p className="text-xs font-mono text-slate-400">Working: {question.formula}</p>}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SolutionReview;
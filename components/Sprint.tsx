@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Zap, Timer, Loader2, Play, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+import { Fact, FactKind, FactMastery, SprintAttempt } from '../types';
+import {
+  SPRINT_SECONDS,
+  FACT_KINDS,
+  FACT_KIND_LABELS,
+  FACTS,
+  factsOfKinds,
+  isCorrectAnswer,
+  isMastered,
+  masteryKey,
+  nextFact,
+  recordAttempt,
+  weakestFacts
+} from '../services/sprint';
+import { listFactMastery, saveFactMastery } from '../services/storage';
+
+interface SprintProps {
+  profileId: string;
+  onExit: () => void;
+}
+
+type Phase = 'setup' | 'running' | 'done';
+
+const factById = new Map(FACTS.map(f => [f.id, f]));
+
+const Sprint: React.FC<SprintProps> = ({ profileId, onExit }) => {
+  const [loading, setLoading] = useState(true);
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [kinds, setKinds] = useState<FactKind[]>(FACT_KINDS);
+  const [mastery, setMastery] = useState<Map<string, FactMastery>>(new Map());
+  const [fact, setFact] = useState<Fact | null>(null);
+  const [input, setInput] = useState('');
+  const [attempts, setAttempts] = useState<SprintAttempt[]>([]);
+  const [lastMiss, setLastMiss] = useState<Fact | null>(null);
+  const [remaining, setRemaining] = useState(SPRINT_SECONDS);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  // performance.now() keeps response times to the millisecond and immune to clock changes
+  const shownAt = useRef(0);
+  const deadline = useRef(0);
+  const touched = useRef(new Set<string>());
+
+  useEffect(() => {
+    listFactMastery(profileId)
+      .then(records => setMastery(new Map(records.map(r => [r.key, r]))))
+      .catch(error => console.error('Failed to load fact mastery:', error))
+      .finally(() => setLoading(false));
+  }, [profileId]);
+
+  const pool = factsOfKinds(kinds);
+
+  const show = (next: Fact) => {
+    setFact(next);
+    setInput('');
+    shownAt.current = performance.now();
+    inputRef.current?.focus();
+  };
+
+  const start = () => {
+    if (pool.length === 0) return;
+    touched.current = new Set();
+    setAttempts([]);
+    setLastMiss(null);
+    setRemaining(SPRINT_SECONDS);
+    deadline.current = performance.now() + SPRINT_SECONDS * 1000;
+    setPhase('running');
+    show(nextFact(pool, mastery, profileId));
+  };
+
+  const finish = () => {
+    if (phase !== 'running') return;
+    setPhase('done');
+    setFact(null);
+    const changed = [...touched.current].map(key => mastery.get(key)).filter((m): m is FactMastery => !!m);
+    if (changed.length > 0) {
+      saveFactMastery(changed).catch(error => console.error('Failed to save fact mastery:', error));
+    }
+  };
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = setInterval(() => {
+      const left = Math.max(0, (deadline.current - performance.now()) / 1000);
+      setRemaining(left);
+      if (left <= 0) finish();
+    }, 100);
+    return () => clearInterval(timer);
+  }, [phase, mastery]);
+
+  useEffect(() => {
+    if (phase === 'running') inputRef.current?.focus();
+  }, [phase]);
+
+  const answer = (given: string, correct: boolean) => {
+    if (!fact) return;
+    const attempt: SprintAttempt = { factId: fact.id, correct, ms: Math.round(performance.now() - shownAt.current), given };
+    const key = masteryKey(profileId, fact.id);
+    const updated = new Map<string, FactMastery>(mastery);
+    updated.set(key, recordAttempt(profileId, mastery.get(key), attempt));
+    touched.current.add(key);
+    setMastery(updated);
+    setAttempts(prev => [...prev, attempt]);
+    setLastMiss(correct ? null : fact);
+    show(nextFact(pool, updated, profileId, fact.id));
+  };
+
+  // A correct answer advances the moment it is typed; Enter submits anything else as a miss
+  const handleChange = (value: string) => {
+    setInput(value);
+    if (fact && isCorrectAnswer(fact, value)) answer(value, true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && input.trim() && fact) {
+      e.preventDefault();
+      answer(input, isCorrectAnswer(fact, input));
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finish();
+    }
+  };
+
+  const toggleKind = (kind: FactKind) =>
+    setKinds(prev => (prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-brand-500" />
+      </div>
+    );
+  }
+
+  const correct = attempts.filter(a => a.correct);
+  const avgMs = correct.length ? Math.round(correct.reduce((sum, a) => sum + a.ms, 0) / correct.length) : 0;
+  const weakest = weakestFacts(pool, mastery, profileId);
+  const masteredCount = pool.filter(f => isMastered(mastery.get(masteryKey(profileId, f.id)))).length;
+
+  return (
+    <div className="max-w-3xl mx-auto w-full p-4 lg:p-8 space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <Zap className="w-7 h-7 text-yellow-400" /> Sprint
+          </h1>
+          <p className="text-slate-400 mt-1">{SPRINT_SECONDS} seconds of typed recall. Correct answers advance instantly.</p>
+        </div>
+        <button
+          onClick={phase === 'running' ? finish : onExit}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors text-sm"
+        >
+          <ArrowLeft className="w-4 h-4" /> {phase === 'running' ? 'Stop' : 'Dashboard'}
+        </button>
+      </div>
+
+      {phase === 'setup' && (
+        <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 space-y-6">
+          <div>
+            <h3 className="text-sm font-bold text-slate-300 mb-3">Facts to drill</h3>
+            <div className="flex flex-wrap gap-2">
+              {FACT_KINDS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => toggleKind(kind)}
+                  className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                    kinds.includes(kind) ? 'border-brand-500 bg-brand-500/20 text-white' : 'border-slate-700 text-slate-500'
+                  }`}
+                >
+                  {FACT_KIND_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-sm text-slate-400">
+            {masteredCount} of {pool.length} facts mastered. Facts you miss or answer slowly come up more often.
+          </p>
+          <button
+            onClick={start}
+            disabled={pool.length === 0}
+            className="flex items-center gap-2 px-6 py-3 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all disabled:opacity-40"
+          >
+            <Play className="w-5 h-5" /> Start sprint
+          </button>
+        </div>
+      )}
+
+      {phase === 'running' && fact && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between text-sm font-mono">
+            <span className={`flex items-center gap-2 ${remaining < 10 ? 'text-red-400' : 'text-slate-300'}`}>
+              <Timer className="w-4 h-4" /> {remaining.toFixed(1)}s
+            </span>
+            <span className="text-slate-400">
+              <span className="text-green-400">{correct.length}</span> / {attempts.length}
+            </span>
+          </div>
+          <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-500 transition-all" style={{ width: `${(remaining / SPRINT_SECONDS) * 100}%` }} />
+          </div>
+          <div className="bg-slate-800/50 p-10 rounded-2xl border border-slate-700 text-center space-y-8">
+            <p className="text-5xl font-mono font-bold text-white">{fact.prompt}</p>
+            <input
+              ref={inputRef}
+              value={input}
+              onChange={(e) => handleChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              inputMode="decimal"
+              autoComplete="off"
+              className="w-full max-w-xs mx-auto block bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 text-3xl text-center font-mono text-white focus:outline-none focus:ring-2 focus:ring-brand-500"
+            />
+            <p className="text-xs text-slate-500 h-4">
+              {lastMiss ? (
+                <span className="text-red-400">{lastMiss.prompt} → {lastMiss.answer}</span>
+              ) : (
+                'Enter submits a guess, Esc ends the sprint'
+              )}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {phase === 'done' && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            {[
+              { label: 'Correct', value: correct.length },
+              { label: 'Missed', value: attempts.length - correct.length },
+              { label: 'Avg. ms / fact', value: avgMs }
+            ].map(card => (
+              <div key={card.label} className="bg-slate-800/50 p-4 rounded-2xl border border-slate-700">
+                <p className="text-xs text-slate-400">{card.label}</p>
+                <p className="text-2xl font-bold text-white font-mono">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {attempts.length > 0 && (
+            <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
+              <h3 className="text-sm font-bold text-slate-300 mb-3">This sprint</h3>
+              <div className="flex flex-wrap gap-2 text-xs font-mono">
+                {attempts.map((a, i) => {
+                  const f = factById.get(a.factId);
+                  return (
+                    <span
+                      key={i}
+                      title={a.correct ? `${a.ms} ms` : `You typed ${a.given}`}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-md ${a.correct ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}
+                    >
+                      {a.correct ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                      {f?.prompt} = {f?.answer}
+                      {a.correct && <span className="text-slate-500">{a.ms}ms</span>}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {weakest.length > 0 && (
+          <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
+            <h3 className="text-sm font-bold text-slate-300 mb-3">Weakest facts</h3>
+            <ul className="space-y-2 text-sm">
+              {weakest.map(({ fact: f, mastery: m }) => (
+                <li key={f.id} className="flex justify-between font-mono">
+                  <span className="text-white">{f.prompt} = {f.answer}</span>
+                  <span className="text-slate-400">
+                    {m!.correct}/{m!.attempts} correct{m!.avgMs > 0 && `, ${m!.avgMs} ms`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={start}
+              className="flex items-center gap-2 px-6 py-3 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold transition-all"
+            >
+              <RotateCcw className="w-5 h-5" /> Go again
+            </button>
+            <button
+              onClick={() => setPhase('setup')}
+              className="px-6 py-3 rounded-xl border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              Change facts
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Sprint;
@@ -0,0 +1,140 @@
+import { AnswerOutcome, DrillDetail, DrillResult, QuestionType } from '../types';
+import { topicOf } from './rating';
+import { outcomeOf } from './scoring';
+import { hashString } from './review';
+
+// Aggregations behind the analytics view. Everything works per answered question
+// (DrillDetail), so mixed-topic drills like mocks and reviews split cleanly by topic.
+
+export interface AnalyticsFilter {
+  from?: string; // Inclusive local dates, YYYY-MM-DD
+  to?: string;
+  topics: QuestionType[];
+}
+
+// A detail paired with the drill and topic it belongs to
+export interface AnsweredQuestion {
+  result: DrillResult;
+  detail: DrillDetail;
+  topic: QuestionType;
+  day: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Monday of the week containing `date`
+export const weekKey = (date: Date) => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+};
+
+export const daysAgo = (days: number, now: Date = new Date()) => {
+  const d = new Date(now);
+  d.setDate(d.getDate() - days);
+  return dayKey(d);
+};
+
+export const answeredQuestions = (history: DrillResult[], filter: AnalyticsFilter): AnsweredQuestion[] =>
+  history.flatMap(result => {
+    const day = dayKey(new Date(result.date));
+    if ((filter.from && day < filter.from) || (filter.to && day > filter.to)) return [];
+    return result.details.flatMap(detail => {
+      const topic = topicOf(result, detail);
+      return topic && filter.topics.includes(topic) ? [{ result, detail, topic, day }] : [];
+    });
+  });
+
+export interface Summary {
+  drills: number;
+  questions: number;
+  attempted: number;
+  accuracy: number; // Correct out of attempted, like DrillResult.accuracy
+  avgSeconds: number;
+}
+
+export const summarize = (answers: AnsweredQuestion[]): Summary => {
+  const attempted = answers.filter(a => ['correct', 'wrong'].includes(outcomeOf(a.detail)));
+  const correct = attempted.filter(a => a.detail.isCorrect).length;
+  return {
+    drills: new Set(answers.map(a => a.result.id)).size,
+    questions: answers.length,
+    attempted: attempted.length,
+    accuracy: attempted.length > 0 ? (correct / attempted.length) * 100 : 0,
+    avgSeconds: answers.length > 0 ? answers.reduce((sum, a) => sum + a.detail.timeSpent, 0) / answers.length : 0
+  };
+};
+
+export type TrendRow = { day: string; label: string } & Partial<Record<QuestionType, number>>;
+
+// One row per day with each topic's accuracy and average seconds per question that day
+export const dailyTrends = (answers: AnsweredQuestion[]): { accuracy: TrendRow[]; speed: TrendRow[] } => {
+  const byDay = new Map<string, Map<QuestionType, AnsweredQuestion[]>>();
+  for (const a of answers) {
+    const topics = byDay.get(a.day) ?? new Map<QuestionType, AnsweredQuestion[]>();
+    topics.set(a.topic, [...(topics.get(a.topic) ?? []), a]);
+    byDay.set(a.day, topics);
+  }
+
+  const accuracy: TrendRow[] = [];
+  const speed: TrendRow[] = [];
+  for (const day of [...byDay.keys()].sort()) {
+    const label = new Date(`${day}T00:00:00`).toLocaleDateString();
+    const accuracyRow: TrendRow = { day, label };
+    const speedRow: TrendRow = { day, label };
+    byDay.get(day)!.forEach((group, topic) => {
+      const summary = summarize(group);
+      // A day of only skips and timeouts says nothing about accuracy
+      if (summary.attempted > 0) accuracyRow[topic] = Math.round(summary.accuracy);
+      speedRow[topic] = Number(summary.avgSeconds.toFixed(1));
+    });
+    accuracy.push(accuracyRow);
+    speed.push(speedRow);
+  }
+  return { accuracy, speed };
+};
+
+export const OUTCOME_BANDS: Record<AnswerOutcome, number> = { correct: 3, wrong: 2, skipped: 1, timeout: 0 };
+
+export interface ScatterPoint {
+  seconds: number;
+  band: number; // OUTCOME_BANDS value plus a little jitter so points don't stack
+  outcome: AnswerOutcome;
+}
+
+// Jitter derives from the question, so the plot is stable between renders and filters
+export const scatterPoints = (answers: AnsweredQuestion[]): Record<QuestionType, ScatterPoint[]> => {
+  const points = Object.fromEntries(Object.values(QuestionType).map(t => [t, [] as ScatterPoint[]])) as Record<QuestionType, ScatterPoint[]>;
+  for (const a of answers) {
+    const outcome = outcomeOf(a.detail);
+    const jitter = (parseInt(hashString(`${a.result.id}:${a.detail.questionId}`), 36) % 60) / 100 - 0.3;
+    points[a.topic].push({ seconds: a.detail.timeSpent, band: OUTCOME_BANDS[outcome] + jitter, outcome });
+  }
+  return points;
+};
+
+export interface WeekVolume {
+  week: string;
+  label: string;
+  drills: number;
+  questions: number;
+}
+
+export const weeklyVolume = (answers: AnsweredQuestion[]): WeekVolume[] => {
+  const weeks = new Map<string, AnsweredQuestion[]>();
+  for (const a of answers) {
+    const week = weekKey(new Date(`${a.day}T00:00:00`));
+    weeks.set(week, [...(weeks.get(week) ?? []), a]);
+  }
+  return [...weeks.keys()].sort().map(week => {
+    const summary = summarize(weeks.get(week)!);
+    return {
+      week,
+      label: new Date(`${week}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      drills: summary.drills,
+      questions: summary.questions
+    };
+  });
+};
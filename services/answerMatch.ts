@@ -0,0 +1,75 @@
+import { MatchMethod, Question } from '../types';
+import { parseNumber } from './expression';
+import { normalizeRelation } from './verification';
+import { TOPICS } from './topics';
+
+// Decides whether a typed or clicked answer means the same thing as the answer key:
+// "C" picks the third option, "1/2" equals "0.5", "x ≥ y" equals "x >= y", and an
+// Approximation answer close enough to the key (and to no other option) counts.
+
+export interface AnswerMatch {
+  isCorrect: boolean;
+  method: MatchMethod;
+  resolvedAnswer: string; // The option or value the input was read as
+}
+
+// Relative tolerance per topic; topics without one need an exact value
+export const ANSWER_TOLERANCE: Partial<Record<Question['type'], number>> = Object.fromEntries(
+  TOPICS.filter(t => t.tolerance !== undefined).map(t => [t.key, t.tolerance])
+);
+
+const OPTION_LETTER = /^(?:option\s*)?\(?([a-e])\)?[.)]?$/i;
+
+const normalizeText = (s: string) => s.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameNumber = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+export const resolveOptionLetter = (input: string, options?: string[]): string | null => {
+  const letter = OPTION_LETTER.exec(input.trim());
+  if (!letter || !options) return null;
+  return options[letter[1].toUpperCase().charCodeAt(0) - 65] ?? null;
+};
+
+const withinTolerance = (value: number, question: Question): boolean => {
+  const tolerance = ANSWER_TOLERANCE[question.type];
+  const target = parseNumber(question.correctAnswer);
+  if (tolerance === undefined || target === null) return false;
+  if (Math.abs(value - target) > tolerance * Math.max(1, Math.abs(target))) return false;
+  // Close to the key is not enough if another option is closer still
+  const others = (question.options ?? [])
+    .filter(o => o !== question.correctAnswer)
+    .map(parseNumber)
+    .filter((n): n is number => n !== null);
+  return others.every(o => Math.abs(value - o) > Math.abs(value - target));
+};
+
+export const matchAnswer = (input: string, question: Question): AnswerMatch => {
+  const raw = input.trim();
+  if (!raw) return { isCorrect: false, method: 'none', resolvedAnswer: '' };
+
+  const fromLetter = resolveOptionLetter(raw, question.options);
+  const resolved = fromLetter ?? raw;
+  const via = (method: MatchMethod): AnswerMatch => ({
+    isCorrect: true,
+    method: fromLetter ? 'option-letter' : method,
+    resolvedAnswer: resolved
+  });
+
+  if (normalizeText(resolved) === normalizeText(question.correctAnswer)) return via('exact');
+
+  const userRelation = normalizeRelation(resolved);
+  const keyRelation = normalizeRelation(question.correctAnswer);
+  if (userRelation && keyRelation) {
+    return userRelation === keyRelation ? via('relation') : { isCorrect: false, method: 'relation', resolvedAnswer: resolved };
+  }
+
+  const userValue = parseNumber(resolved);
+  const keyValue = parseNumber(question.correctAnswer);
+  if (userValue !== null && keyValue !== null) {
+    if (sameNumber(userValue, keyValue)) return via('numeric');
+    if (withinTolerance(userValue, question)) return via('tolerance');
+    return { isCorrect: false, method: 'numeric', resolvedAnswer: resolved };
+  }
+
+  return { isCorrect: false, method: fromLetter ? 'option-letter' : 'exact', resolvedAnswer: resolved };
+};
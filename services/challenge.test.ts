@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Challenge, Question, QuestionType } from '../types';
+import { decodeChallenge, encodeChallenge } from './challenge';
+
+const question = (i: number): Question => ({
+  id: `gen-${i}`,
+  type: 'di',
+  questionText: `Sales in 202${i}?`,
+  correctAnswer: String(i),
+  explanation: '',
+  options: ['1', '2', '3', '4', '5'],
+  difficulty: 3,
+  dataSet: { id: 'ds-1', kind: 'bar', title: 'Sales', categories: ['2021', '2022'], series: [{ name: 'A', values: [1, 2] }] }
+});
+
+const challenge = (extra: object = {}): Challenge => ({
+  v: 1,
+  topic: QuestionType.DATA_INTERPRETATION,
+  difficulty: 3,
+  count: 2,
+  scoring: { correct: 1, wrong: -0.25, skipped: 0, timeout: 0 },
+  source: { kind: 'questions', questions: [question(1), question(2)] },
+  challenger: { name: 'Asha', netMarks: 0.75, maxMarks: 2, correct: 1, wrong: 1, accuracy: 50, timeTaken: 40, outcomes: ['correct', 'wrong'] },
+  ...extra
+});
+
+// Round-trips whatever it's given, as a hand-edited link would arrive
+const roundTrip = async (value: object) => decodeChallenge(await encodeChallenge(value as Challenge));
+
+describe('decodeChallenge', () => {
+  it('round-trips a challenge with its challenger', async () => {
+    expect(await roundTrip(challenge())).toEqual(challenge());
+  });
+
+  it('keeps the drill but drops a challenger it cannot show', async () => {
+    const bad = [
+      { outcomes: 'correct,wrong' },
+      { outcomes: ['correct', 'lucky'] },
+      { outcomes: ['correct'] },
+      { netMarks: 'lots' }
+    ];
+    for (const patch of bad) {
+      const decoded = await roundTrip(challenge({ challenger: { ...challenge().challenger, ...patch } }));
+      expect(decoded).not.toBeNull();
+      expect(decoded).not.toHaveProperty('challenger');
+    }
+  });
+
+  it('rejects a link with unusable scoring or a malformed dataSet', async () => {
+    expect(await roundTrip(challenge({ scoring: { correct: 1, wrong: '-0.25', skipped: 0, timeout: 0 } }))).toBeNull();
+    const broken = { ...question(2), dataSet: { ...question(2).dataSet, series: [{ name: 'A', values: [1] }] } };
+    expect(await roundTrip(challenge({ source: { kind: 'questions', questions: [question(1), broken] } }))).toBeNull();
+  });
+});
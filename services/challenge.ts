@@ -0,0 +1,165 @@
+import { Challenge, ChallengerResult, DrillResult, Question, QuestionType, REVIEW_TOPIC } from '../types';
+import { isDataSet } from './dataInterpretation';
+import { normalizeDrillSettings } from './drillSettings';
+import { generateOfflineQuestions } from './offline';
+import { OUTCOMES, isScoringModel, outcomeOf, resultStats } from './scoring';
+import { QUESTION_KEYS } from './topics';
+
+// Challenge links: a drill frozen into the URL fragment so a friend can race the
+// exact same questions. Offline drills only need their generator seed; anything
+// else carries its questions. The fragment never reaches a server.
+
+export const CHALLENGE_PARAM = 'challenge';
+
+const OFFLINE_ID = /^offline-(\d+)-(\d+)$/;
+
+// Every question straight from one offline generator call, in order, means the seed alone rebuilds the drill
+const offlineSeed = (questions: Question[]): number | null => {
+  let seed: number | null = null;
+  for (let i = 0; i < questions.length; i++) {
+    const match = OFFLINE_ID.exec(questions[i].id);
+    if (!match || Number(match[2]) !== i) return null;
+    if (seed !== null && Number(match[1]) !== seed) return null;
+    seed = Number(match[1]);
+  }
+  return seed;
+};
+
+// Only what's needed to replay a question; verification and review state stay behind
+const freeze = ({ id, type, questionText, options, correctAnswer, explanation, difficulty, dataSet, formula }: Question): Question => ({
+  id,
+  type,
+  questionText,
+  options,
+  correctAnswer,
+  explanation,
+  difficulty,
+  dataSet,
+  formula
+});
+
+export const challengerResult = (name: string, result: DrillResult): ChallengerResult => {
+  const stats = resultStats(result);
+  return {
+    name,
+    netMarks: stats.netMarks,
+    maxMarks: stats.maxMarks,
+    correct: stats.correct,
+    wrong: stats.wrong,
+    accuracy: Math.round(result.accuracy),
+    timeTaken: Math.round(result.timeTaken),
+    outcomes: result.details.map(outcomeOf)
+  };
+};
+
+// Returns null for drills that can't be replayed as one (mock tests mix topics and sections)
+export const buildChallenge = (result: DrillResult, questions: Question[], name: string): Challenge | null => {
+  const topic = result.topic;
+  const isTopic = topic === REVIEW_TOPIC || Object.values(QuestionType).includes(topic as QuestionType);
+  if (!isTopic || questions.length === 0) return null;
+  const difficulty = result.difficulty ?? 3;
+  const seed = topic !== REVIEW_TOPIC && questions.every(q => q.difficulty === difficulty) ? offlineSeed(questions) : null;
+  return {
+    v: 1,
+    topic: topic as Challenge['topic'],
+    difficulty,
+    count: questions.length,
+    scoring: result.scoring,
+    settings: result.settings,
+    source: seed !== null ? { kind: 'seed', seed } : { kind: 'questions', questions: questions.map(freeze) },
+    challenger: challengerResult(name, result)
+  };
+};
+
+export const challengeQuestions = (challenge: Challenge): Question[] =>
+  challenge.source.kind === 'seed'
+    ? generateOfflineQuestions(challenge.topic as QuestionType, challenge.count, challenge.source.seed, challenge.difficulty)
+    : challenge.source.questions;
+
+// ---------- Encoding ----------
+
+// Tokens start with 'z' when deflated and 'j' when plain JSON, both base64url
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeChallenge = async (challenge: Challenge): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(challenge));
+  if (typeof CompressionStream === 'undefined') return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))}`;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isQuestion = (q: unknown) =>
+  isObject(q) &&
+  typeof q.id === 'string' &&
+  QUESTION_KEYS.includes(q.type as never) &&
+  typeof q.questionText === 'string' &&
+  typeof q.correctAnswer === 'string' &&
+  (q.explanation === undefined || typeof q.explanation === 'string') &&
+  (q.options === undefined || (Array.isArray(q.options) && q.options.every(o => typeof o === 'string'))) &&
+  (q.dataSet === undefined || (isDataSet(q.dataSet) && typeof q.dataSet.id === 'string'));
+
+const CHALLENGER_NUMBERS = ['netMarks', 'maxMarks', 'correct', 'wrong', 'accuracy', 'timeTaken'] as const;
+
+const isChallengerResult = (c: unknown, count: number): c is ChallengerResult =>
+  isObject(c) &&
+  typeof c.name === 'string' &&
+  CHALLENGER_NUMBERS.every(key => Number.isFinite(c[key])) &&
+  Array.isArray(c.outcomes) &&
+  c.outcomes.length === count &&
+  c.outcomes.every(o => OUTCOMES.includes(o));
+
+// Everything the drill needs to play; the challenger's run is checked on its own in decodeChallenge
+const isChallenge = (value: unknown): value is Challenge => {
+  if (!isObject(value) || value.v !== 1) return false;
+  if (value.topic !== REVIEW_TOPIC && !Object.values(QuestionType).includes(value.topic as QuestionType)) return false;
+  if (!Number.isInteger(value.count) || (value.count as number) < 1 || !Number.isFinite(value.difficulty)) return false;
+  if (value.settings !== undefined && !isObject(value.settings)) return false;
+  if (value.scoring !== undefined && !isScoringModel(value.scoring)) return false;
+  const source = value.source;
+  if (!isObject(source)) return false;
+  if (source.kind === 'seed') return Number.isSafeInteger(source.seed) && value.topic !== REVIEW_TOPIC;
+  return (
+    source.kind === 'questions' &&
+    Array.isArray(source.questions) &&
+    source.questions.length === value.count &&
+    source.questions.every(isQuestion)
+  );
+};
+
+// Null for anything truncated, tampered with or from a newer version
+export const decodeChallenge = async (token: string): Promise<Challenge | null> => {
+  try {
+    const body = fromBase64Url(token.slice(1));
+    const json = token[0] === 'z' ? await pipe(body, new DecompressionStream('deflate-raw')) : token[0] === 'j' ? body : null;
+    if (!json) return null;
+    const value = JSON.parse(new TextDecoder().decode(json));
+    if (!isChallenge(value)) return null;
+    // A bad challenger only costs the head-to-head; the drill itself still plays
+    if (value.challenger !== undefined && !isChallengerResult(value.challenger, value.count)) delete value.challenger;
+    // The friend plays under the challenger's clock, clamped like any saved settings
+    if (value.settings) value.settings = normalizeDrillSettings(value.settings);
+    return value;
+  } catch (error) {
+    console.error('Failed to read challenge link:', error);
+    return null;
+  }
+};
+
+export const challengeLink = (token: string, location: Location = window.location) =>
+  `${location.origin}${location.pathname}#${CHALLENGE_PARAM}=${token}`;
+
+export const challengeToken = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(CHALLENGE_PARAM);
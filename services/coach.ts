@@ -0,0 +1,174 @@
+import {
+  CoachReport,
+  CoachTechnique,
+  DrillRecommendation,
+  DrillResult,
+  DrillSummary,
+  ErrorCategory,
+  MistakeFeedback,
+  QuestionType
+} from '../types';
+import { DEFAULT_DRILL_COUNT, MAX_DRILL_COUNT } from './drillSettings';
+import { clampDifficulty, topicOf } from './rating';
+import { outcomeOf, resultStats } from './scoring';
+import { TOPIC_INFO } from './topics';
+
+// Coaching as data: typed mistakes, techniques and a next drill the app can start.
+// The rule-based report doubles as the fallback whenever a model is unavailable or
+// returns something unusable, so the Analysis screen always has the same shape.
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  calculation: 'Calculation slip',
+  pattern: 'Missed pattern',
+  concept: 'Concept gap',
+  estimation: 'Rounding error',
+  careless: 'Rushed answer',
+  'time-management': 'Time management'
+};
+
+export const ERROR_CATEGORIES = Object.keys(ERROR_CATEGORY_LABELS) as ErrorCategory[];
+
+const RUSHED_SECONDS = 6;
+
+const GENERAL_TECHNIQUE: CoachTechnique = {
+  title: 'Two-pass strategy',
+  description: 'Answer everything you can solve in under 20 seconds first, then return to the rest. With negative marking, skip anything you cannot narrow to two options.'
+};
+
+const isQuestionType = (value: unknown): value is QuestionType =>
+  (Object.values(QuestionType) as unknown[]).includes(value);
+
+export const buildDrillSummary = (result: DrillResult): DrillSummary => {
+  const stats = resultStats(result);
+  return {
+    topic: result.topic,
+    difficulty: result.difficulty,
+    score: result.score,
+    accuracy: result.accuracy,
+    netMarks: stats.netMarks,
+    correct: stats.correct,
+    wrong: stats.wrong,
+    skipped: stats.skipped,
+    timedOut: stats.timedOut,
+    maxStreak: result.maxStreak,
+    details: result.details.map((d, i) => ({
+      questionNumber: i + 1,
+      topic: topicOf(result, d),
+      questionText: d.isCorrect ? undefined : d.question?.questionText,
+      outcome: outcomeOf(d),
+      wasCorrect: d.isCorrect,
+      timeTaken: d.timeSpent,
+      userAnswer: d.userAnswer,
+      correctAnswer: d.correctAnswer
+    }))
+  };
+};
+
+const fallbackTopic = (summary: DrillSummary): QuestionType =>
+  isQuestionType(summary.topic)
+    ? summary.topic
+    : summary.details.find(d => d.topic)?.topic ?? QuestionType.SIMPLIFICATION;
+
+const ruleMistakes = (summary: DrillSummary): MistakeFeedback[] =>
+  summary.details.flatMap(d => {
+    if (d.outcome === 'timeout') {
+      return [{ questionNumber: d.questionNumber, category: 'time-management' as const, note: `Ran out of time after ${d.timeTaken.toFixed(0)}s; guess or skip earlier.` }];
+    }
+    if (d.outcome !== 'wrong') return [];
+    if (d.timeTaken < RUSHED_SECONDS) {
+      return [{ questionNumber: d.questionNumber, category: 'careless' as const, note: `Answered ${d.userAnswer} in ${d.timeTaken.toFixed(1)}s; the key was ${d.correctAnswer}. Take a second to check.` }];
+    }
+    const category = d.topic ? TOPIC_INFO[d.topic].errorCategory : 'calculation';
+    return [{ questionNumber: d.questionNumber, category, note: `Answered ${d.userAnswer}; the key was ${d.correctAnswer}.` }];
+  });
+
+// The topic with the most misses, ties going to the one drilled
+const weakestTopic = (summary: DrillSummary): QuestionType => {
+  const misses = new Map<QuestionType, number>();
+  for (const d of summary.details) {
+    if (d.topic && (d.outcome === 'wrong' || d.outcome === 'timeout')) misses.set(d.topic, (misses.get(d.topic) ?? 0) + 1);
+  }
+  const fallback = fallbackTopic(summary);
+  return [...misses.entries()].reduce(
+    (best, [topic, count]) => (count > (misses.get(best) ?? 0) ? topic : best),
+    fallback
+  );
+};
+
+const recommend = (summary: DrillSummary): DrillRecommendation => {
+  const topic = weakestTopic(summary);
+  const level = summary.difficulty ?? 3;
+  const answered = summary.details.filter(d => d.topic === topic);
+  const avgTime = answered.length ? answered.reduce((sum, d) => sum + d.timeTaken, 0) / answered.length : 0;
+
+  if (summary.accuracy >= 80 && summary.timedOut === 0 && avgTime < 20) {
+    return { topic, difficulty: clampDifficulty(level + 1), count: DEFAULT_DRILL_COUNT, reason: 'Accurate and quick: step the difficulty up.' };
+  }
+  if (summary.accuracy < 50 || summary.timedOut > 1) {
+    return { topic, difficulty: clampDifficulty(level - 1), count: 10, reason: 'Rebuild accuracy with a longer drill one level easier.' };
+  }
+  return { topic, difficulty: clampDifficulty(level), count: DEFAULT_DRILL_COUNT, reason: `Consolidate ${topic} at the same level.` };
+};
+
+const mostCommon = (mistakes: MistakeFeedback[]): ErrorCategory => {
+  const counts = new Map<ErrorCategory, number>();
+  mistakes.forEach(m => counts.set(m.category, (counts.get(m.category) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+export const ruleBasedReport = (summary: DrillSummary): CoachReport => {
+  const mistakes = ruleMistakes(summary);
+  const nextDrill = recommend(summary);
+  const techniques = [...TOPIC_INFO[nextDrill.topic].techniques];
+  if (summary.timedOut > 0 || summary.netMarks < summary.correct) techniques.push(GENERAL_TECHNIQUE);
+
+  const summaryText = mistakes.length === 0
+    ? `Clean drill: ${summary.correct} correct with no misses. Keep the pace and raise the bar.`
+    : `${summary.correct} correct, ${summary.wrong} wrong, ${summary.timedOut} timed out. Most common miss: ${ERROR_CATEGORY_LABELS[mostCommon(mistakes)].toLowerCase()}.`;
+
+  return { summary: summaryText, mistakes, techniques: techniques.slice(0, 3), nextDrill, source: 'rules' };
+};
+
+const asString = (v: unknown): string | null => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+// Keeps whatever a model got right and fills the rest from the rules
+export const toCoachReport = (parsed: unknown, summary: DrillSummary): CoachReport => {
+  const rules = ruleBasedReport(summary);
+  if (typeof parsed !== 'object' || parsed === null) return rules;
+  const raw = parsed as Record<string, unknown>;
+
+  const mistakes = Array.isArray(raw.mistakes)
+    ? raw.mistakes.flatMap((m): MistakeFeedback[] => {
+        const questionNumber = Number(m?.questionNumber);
+        const note = asString(m?.note);
+        if (!ERROR_CATEGORIES.includes(m?.category) || !note || !summary.details.some(d => d.questionNumber === questionNumber)) return [];
+        return [{ questionNumber, category: m.category, note }];
+      })
+    : rules.mistakes;
+
+  const techniques = Array.isArray(raw.techniques)
+    ? raw.techniques.flatMap((t): CoachTechnique[] => {
+        const title = asString(t?.title);
+        const description = asString(t?.description);
+        return title && description ? [{ title, description }] : [];
+      })
+    : [];
+
+  const next = (raw.nextDrill ?? {}) as Record<string, unknown>;
+  const nextDrill: DrillRecommendation = isQuestionType(next.topic)
+    ? {
+        topic: next.topic,
+        difficulty: clampDifficulty(Number(next.difficulty) || rules.nextDrill.difficulty),
+        count: Math.min(MAX_DRILL_COUNT, Math.max(1, Math.round(Number(next.count) || DEFAULT_DRILL_COUNT))),
+        reason: asString(next.reason) ?? `Work on ${next.topic} next.`
+      }
+    : rules.nextDrill;
+
+  return {
+    summary: asString(raw.summary) ?? rules.summary,
+    mistakes,
+    techniques: techniques.length > 0 ? techniques.slice(0, 4) : rules.techniques,
+    nextDrill,
+    source: 'ai'
+  };
+};
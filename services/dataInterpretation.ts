@@ -0,0 +1,68 @@
+import { ChartKind, DataSet } from '../types';
+import { evaluate } from './expression';
+import { hashString } from './review';
+
+// Data Interpretation answers are written as formulas over the dataset, with each
+// cell referenced as {Series|Category}, e.g. ({Company A|2021} - {Company A|2020}) ÷ {Company A|2020} × 100.
+// Substituting the real values and evaluating locally is how DI answer keys are checked.
+
+const CELL = /\{([^{}|]+)\|([^{}]+)\}/g;
+
+export const cellValue = (dataSet: DataSet, seriesName: string, category: string): number | null => {
+  const series = dataSet.series.find(s => s.name.trim().toLowerCase() === seriesName.trim().toLowerCase());
+  const index = dataSet.categories.findIndex(c => c.trim().toLowerCase() === category.trim().toLowerCase());
+  if (!series || index < 0) return null;
+  const value = series.values[index];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+// The formula with every cell replaced by its value, or null if a cell doesn't exist
+export const substituteCells = (formula: string, dataSet: DataSet): string | null => {
+  let missing = false;
+  const text = formula.replace(CELL, (_, series: string, category: string) => {
+    const value = cellValue(dataSet, series, category);
+    if (value === null) missing = true;
+    return value === null ? '0' : value < 0 ? `(${value})` : String(value);
+  });
+  return missing ? null : text;
+};
+
+export const evaluateFormula = (formula: string, dataSet: DataSet): number | null => {
+  const text = substituteCells(formula, dataSet);
+  if (text === null) return null;
+  try {
+    const value = evaluate(text);
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const CHART_KINDS: ChartKind[] = ['table', 'bar', 'line', 'pie'];
+
+// A dataset from outside the app (a model, a link, an import) may not carry our id yet
+export type DataSetInput = Omit<DataSet, 'id'> & { id?: string };
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isSeries = (s: unknown, length: number) =>
+  isRecord(s) &&
+  typeof s.name === 'string' &&
+  Array.isArray(s.values) &&
+  s.values.length === length &&
+  s.values.every(v => typeof v === 'number' && Number.isFinite(v));
+
+// Charts and the verifier index series by category, so every series needs one finite value per category
+export const isDataSet = (value: unknown): value is DataSetInput => {
+  if (!isRecord(value) || !CHART_KINDS.includes(value.kind as ChartKind) || typeof value.title !== 'string') return false;
+  if ((value.id !== undefined && typeof value.id !== 'string') || (value.unit !== undefined && typeof value.unit !== 'string')) return false;
+  const { categories, series } = value;
+  if (!Array.isArray(categories) || categories.length === 0 || !categories.every(c => typeof c === 'string')) return false;
+  return Array.isArray(series) && series.length > 0 && series.every(s => isSeries(s, categories.length));
+};
+
+// Sets are recognised by content, so the same table from two batches is one set
+export const dataSetId = (dataSet: Pick<DataSet, 'categories' | 'series'>) =>
+  `ds-${hashString(JSON.stringify([dataSet.categories, dataSet.series]))}`;
+
+export const formatDiValue = (value: number) => String(Number(value.toFixed(2)));
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { DrillSettings, Question, QuestionType } from '../types';
+import { DEFAULT_DRILL_SETTINGS } from './drillSettings';
+import {
+  DrillAction,
+  DrillState,
+  buildDrillResult,
+  drillReducer,
+  initialDrillState,
+  pauseWhenHidden,
+  secondsLeft
+} from './drillEngine';
+
+const question = (answer: number): Question => ({
+  id: `q-${answer}`,
+  type: 'simplification',
+  questionText: `${answer} + 0 = ?`,
+  correctAnswer: String(answer),
+  explanation: '',
+  options: [answer - 2, answer - 1, answer, answer + 1, answer + 2].map(String),
+  difficulty: 3
+});
+
+const QUESTIONS = [question(10), question(20), question(30)];
+
+// 30s a question and a 1s feedback flash, unless a test says otherwise
+const start = (settings: Partial<DrillSettings> = {}, questions: Question[] = QUESTIONS): DrillState =>
+  drillReducer(
+    initialDrillState({
+      topic: QuestionType.SIMPLIFICATION,
+      difficulty: 3,
+      settings: { ...DEFAULT_DRILL_SETTINGS, autoAdvanceMs: 1000, ...settings }
+    }),
+    { type: 'loaded', questions, offline: false, now: 0 }
+  );
+
+const run = (state: DrillState, ...actions: DrillAction[]) => actions.reduce(drillReducer, state);
+
+const answer = (value: string, now: number): DrillAction[] => [
+  { type: 'input', answer: value },
+  { type: 'submit', now }
+];
+
+describe('drillReducer', () => {
+  it('starts running with the per-question clock full', () => {
+    const state = start();
+    expect(state.status).toBe('running');
+    expect(secondsLeft(state)).toBe(30);
+  });
+
+  it('goes to empty rather than running with no questions', () => {
+    expect(start({}, []).status).toBe('empty');
+  });
+
+  it('times a question out on the first tick past its deadline, charging exactly the limit', () => {
+    const state = run(start(), { type: 'tick', now: 29_900 }, { type: 'tick', now: 30_250 });
+    expect(state.details).toHaveLength(1);
+    expect(state.details[0]).toMatchObject({ outcome: 'timeout', userAnswer: 'Timeout', isCorrect: false, timeSpent: 30 });
+    expect(state.feedback).toBe('incorrect');
+  });
+
+  it('records a skip without an answer and moves on after the feedback delay', () => {
+    let state = run(start(), { type: 'skip', now: 4_000 });
+    expect(state.details[0]).toMatchObject({ outcome: 'skipped', userAnswer: 'Skipped', timeSpent: 4 });
+
+    state = run(state, { type: 'tick', now: 4_500 });
+    expect(state.index).toBe(0);
+    state = run(state, { type: 'tick', now: 5_000 });
+    expect(state.index).toBe(1);
+    expect(state.feedback).toBeNull();
+    expect(secondsLeft(state)).toBe(30);
+  });
+
+  it('ignores a submit with no answer', () => {
+    const state = start();
+    expect(drillReducer(state, { type: 'submit', now: 1_000 })).toBe(state);
+  });
+
+  it('resets the streak on a miss and keeps the best run in maxStreak', () => {
+    const questions = [question(1), question(2), question(3), question(4)];
+    let state = start({}, questions);
+    state = run(state, ...answer('1', 1_000), { type: 'tick', now: 2_000 });
+    state = run(state, ...answer('2', 3_000), { type: 'tick', now: 4_000 });
+    expect(state.streak).toBe(2);
+
+    state = run(state, ...answer('99', 5_000), { type: 'tick', now: 6_000 });
+    expect(state.streak).toBe(0);
+    expect(state.maxStreak).toBe(2);
+
+    state = run(state, ...answer('4', 7_000));
+    expect(state.streak).toBe(1);
+    expect(state.maxStreak).toBe(2);
+  });
+
+  it('times out every remaining question when a whole-drill clock runs out', () => {
+    let state = start({ timeLimitMode: 'whole-drill', timeLimitSeconds: 60 });
+    state = run(state, ...answer('10', 10_000), { type: 'tick', now: 11_000 });
+    // The 1s of feedback doesn't come off the drill's clock
+    expect(secondsLeft(state)).toBe(50);
+
+    state = run(state, { type: 'tick', now: 61_500 });
+    expect(state.status).toBe('finished');
+    expect(state.details.map(d => d.outcome)).toEqual(['correct', 'timeout', 'timeout']);
+    expect(state.details.map(d => d.timeSpent)).toEqual([10, 50, 0]);
+    expect(state.streak).toBe(0);
+  });
+
+  it('freezes the clock while paused and leaves the pause out of every timing', () => {
+    let state = run(start(), { type: 'tick', now: 5_000 }, { type: 'pause', now: 5_000 });
+    expect(secondsLeft(run(state, { type: 'tick', now: 100_000 }))).toBe(25);
+    expect(drillReducer(state, { type: 'skip', now: 6_000 })).toBe(state);
+
+    state = run(state, { type: 'resume', now: 65_000 }, { type: 'tick', now: 66_000 });
+    expect(secondsLeft(state)).toBe(24);
+    state = run(state, { type: 'skip', now: 70_000 });
+    expect(state.details[0].timeSpent).toBe(10);
+  });
+});
+
+describe('pauseWhenHidden', () => {
+  const visibility = () => Object.assign(new EventTarget(), { hidden: false });
+
+  it('pauses when the page is hidden and leaves resuming to the player', () => {
+    const page = visibility();
+    let state = start();
+    const dispatch = (action: DrillAction) => {
+      state = drillReducer(state, action);
+    };
+    const stop = pauseWhenHidden(page, dispatch, () => 8_000);
+
+    page.hidden = true;
+    page.dispatchEvent(new Event('visibilitychange'));
+    expect(state.pausedAt).toBe(8_000);
+
+    page.hidden = false;
+    page.dispatchEvent(new Event('visibilitychange'));
+    expect(state.pausedAt).toBe(8_000);
+
+    dispatch({ type: 'resume', now: 20_000 });
+    expect(state.pausedAt).toBeNull();
+    expect(secondsLeft(state)).toBe(22);
+
+    stop();
+    page.hidden = true;
+    page.dispatchEvent(new Event('visibilitychange'));
+    expect(state.pausedAt).toBeNull();
+  });
+});
+
+describe('buildDrillResult', () => {
+  it('scores the finished drill and records its settings', () => {
+    let state = start();
+    state = run(state, ...answer('10', 5_000), { type: 'tick', now: 6_000 });
+    state = run(state, ...answer('21', 10_000), { type: 'tick', now: 11_000 });
+    state = run(state, { type: 'skip', now: 15_000 }, { type: 'tick', now: 16_000 });
+    expect(state.status).toBe('finished');
+
+    const date = new Date('2026-01-02T03:04:05Z');
+    const result = buildDrillResult(state, date);
+    expect(result).toMatchObject({
+      id: String(date.getTime()),
+      date: date.toISOString(),
+      topic: QuestionType.SIMPLIFICATION,
+      totalQuestions: 3,
+      timeTaken: 16,
+      accuracy: 50,
+      maxStreak: 1,
+      difficulty: 3,
+      settings: { ...DEFAULT_DRILL_SETTINGS, autoAdvanceMs: 1000, questionCount: 3 }
+    });
+    expect(result.details.map(d => d.outcome)).toEqual(['correct', 'wrong', 'skipped']);
+    expect(result.stats).toMatchObject({ correct: 1, wrong: 1, skipped: 1, netMarks: 0.75, maxMarks: 3 });
+    expect(result.score).toBeCloseTo(25);
+  });
+});
@@ -0,0 +1,233 @@
+import { DrillDetail, DrillResult, DrillSettings, Question, QuestionType, REVIEW_TOPIC, ScoringModel } from '../types';
+import { AnswerMatch, matchAnswer } from './answerMatch';
+import { scoreDrill } from './scoring';
+
+// A drill as a pure state machine. Every timed action carries a performance.now()
+// timestamp, so time is measured between events instead of counted by an interval:
+// a late tick or a throttled background tab can't make the clock drift.
+
+export type DrillStatus = 'loading' | 'error' | 'empty' | 'running' | 'finished';
+
+export interface DrillLoadError {
+  message: string;
+  detail?: string; // The underlying error, for the curious
+  retryable: boolean;
+}
+
+export interface DrillConfig {
+  topic: QuestionType | typeof REVIEW_TOPIC;
+  difficulty: number;
+  settings: DrillSettings;
+  scoring?: ScoringModel;
+}
+
+export interface DrillState {
+  config: DrillConfig;
+  status: DrillStatus;
+  error: DrillLoadError | null;
+  questions: Question[];
+  offline: boolean; // True when some or all questions came from the local generators
+  index: number;
+  answer: string;
+  feedback: 'correct' | 'incorrect' | null;
+  details: DrillDetail[];
+  streak: number;
+  maxStreak: number;
+  // performance.now() milliseconds; resuming from a pause shifts them all forward
+  startedAt: number;
+  questionStartedAt: number;
+  answeredAt: number;
+  deadline: number; // When the running clock hits zero: this question's, or the whole drill's
+  pausedAt: number | null;
+  now: number; // The latest timestamp the drill has seen
+}
+
+export type DrillAction =
+  | { type: 'load'; config: DrillConfig }
+  | { type: 'loaded'; questions: Question[]; offline: boolean; now: number }
+  | { type: 'failed'; error: DrillLoadError }
+  | { type: 'input'; answer: string }
+  | { type: 'submit'; now: number }
+  | { type: 'skip'; now: number }
+  | { type: 'tick'; now: number }
+  | { type: 'pause'; now: number }
+  | { type: 'resume'; now: number };
+
+type Unanswered = 'timeout' | 'skipped';
+
+export const initialDrillState = (config: DrillConfig): DrillState => ({
+  config,
+  status: 'loading',
+  error: null,
+  questions: [],
+  offline: false,
+  index: 0,
+  answer: '',
+  feedback: null,
+  details: [],
+  streak: 0,
+  maxStreak: 0,
+  startedAt: 0,
+  questionStartedAt: 0,
+  answeredAt: 0,
+  deadline: 0,
+  pausedAt: null,
+  now: 0
+});
+
+const limitMs = (config: DrillConfig) => config.settings.timeLimitSeconds * 1000;
+
+const isWholeDrill = (config: DrillConfig) => config.settings.timeLimitMode === 'whole-drill';
+
+const buildDetail = (q: Question, answer: string, match: AnswerMatch | null, unanswered: Unanswered | undefined, timeSpent: number): DrillDetail => {
+  const isCorrect = !!match?.isCorrect;
+  return {
+    questionId: q.id,
+    isCorrect,
+    outcome: unanswered ?? (isCorrect ? 'correct' : 'wrong'),
+    matchMethod: match?.method ?? 'none',
+    userAnswer: unanswered === 'timeout' ? 'Timeout' : unanswered === 'skipped' ? 'Skipped' : answer,
+    correctAnswer: q.correctAnswer,
+    timeSpent,
+    type: q.type,
+    difficulty: q.difficulty,
+    // The full question, for worked solutions and so misses can join the review queue
+    question: q
+  };
+};
+
+// Records the current question and shows feedback until the auto-advance delay has passed
+const answerQuestion = (state: DrillState, at: number, unanswered?: Unanswered): DrillState => {
+  const q = state.questions[state.index];
+  // Option letters, fractions, relation symbols and near-enough approximations all count
+  const match = unanswered ? null : matchAnswer(state.answer, q);
+  const isCorrect = !!match?.isCorrect;
+  const streak = isCorrect ? state.streak + 1 : 0;
+  return {
+    ...state,
+    details: [...state.details, buildDetail(q, state.answer, match, unanswered, (at - state.questionStartedAt) / 1000)],
+    streak,
+    maxStreak: Math.max(state.maxStreak, streak),
+    feedback: isCorrect ? 'correct' : 'incorrect',
+    answeredAt: at,
+    now: at
+  };
+};
+
+const advance = (state: DrillState, now: number): DrillState => {
+  if (state.index >= state.questions.length - 1) return { ...state, feedback: null, status: 'finished', now };
+  return {
+    ...state,
+    index: state.index + 1,
+    answer: '',
+    feedback: null,
+    questionStartedAt: now,
+    // Feedback time never comes off a whole-drill clock
+    deadline: isWholeDrill(state.config) ? state.deadline + (now - state.answeredAt) : now + limitMs(state.config),
+    now
+  };
+};
+
+// The whole-drill clock ran out: the current question and every one after it time out
+const expireDrill = (state: DrillState): DrillState => {
+  const timedOut = state.questions
+    .slice(state.index)
+    .map((q, i) => buildDetail(q, '', null, 'timeout', i === 0 ? (state.deadline - state.questionStartedAt) / 1000 : 0));
+  return { ...state, details: [...state.details, ...timedOut], streak: 0, status: 'finished', now: state.deadline };
+};
+
+const canAnswer = (state: DrillState) => state.status === 'running' && !state.feedback && state.pausedAt === null;
+
+export const drillReducer = (state: DrillState, action: DrillAction): DrillState => {
+  switch (action.type) {
+    case 'load':
+      return initialDrillState(action.config);
+    case 'loaded':
+      if (action.questions.length === 0) return { ...state, status: 'empty', questions: [], offline: action.offline };
+      return {
+        ...state,
+        status: 'running',
+        questions: action.questions,
+        offline: action.offline,
+        startedAt: action.now,
+        questionStartedAt: action.now,
+        deadline: action.now + limitMs(state.config),
+        now: action.now
+      };
+    case 'failed':
+      return { ...state, status: 'error', error: action.error };
+    case 'input':
+      return canAnswer(state) ? { ...state, answer: action.answer } : state;
+    case 'submit':
+      return canAnswer(state) && state.answer ? answerQuestion(state, action.now) : state;
+    case 'skip':
+      // Scores nothing, but unlike a wrong answer carries no penalty
+      return canAnswer(state) ? answerQuestion(state, action.now, 'skipped') : state;
+    case 'tick':
+      if (state.status !== 'running' || state.pausedAt !== null) return state;
+      if (state.feedback) {
+        return action.now - state.answeredAt >= state.config.settings.autoAdvanceMs ? advance(state, action.now) : { ...state, now: action.now };
+      }
+      if (action.now < state.deadline) return { ...state, now: action.now };
+      // Time over: charged exactly the limit, however late the tick that noticed
+      if (isWholeDrill(state.config)) return expireDrill(state);
+      return { ...answerQuestion(state, state.deadline, 'timeout'), now: action.now };
+    case 'pause':
+      return state.status === 'running' && state.pausedAt === null ? { ...state, pausedAt: action.now, now: action.now } : state;
+    case 'resume': {
+      if (state.pausedAt === null) return state;
+      // A pause never counts towards timeSpent, timeTaken or either clock
+      const pausedFor = action.now - state.pausedAt;
+      return {
+        ...state,
+        startedAt: state.startedAt + pausedFor,
+        questionStartedAt: state.questionStartedAt + pausedFor,
+        answeredAt: state.answeredAt + pausedFor,
+        deadline: state.deadline + pausedFor,
+        pausedAt: null,
+        now: action.now
+      };
+    }
+  }
+};
+
+// Leaving the tab pauses the drill; coming back waits for an explicit resume. Returns the unsubscribe.
+export const pauseWhenHidden = (
+  source: EventTarget & { hidden: boolean },
+  dispatch: (action: DrillAction) => void,
+  clock: () => number = () => performance.now()
+) => {
+  const onVisibilityChange = () => {
+    if (source.hidden) dispatch({ type: 'pause', now: clock() });
+  };
+  source.addEventListener('visibilitychange', onVisibilityChange);
+  return () => source.removeEventListener('visibilitychange', onVisibilityChange);
+};
+
+export const currentQuestion = (state: DrillState): Question | undefined => state.questions[state.index];
+
+// Whole seconds left on the running clock, frozen while paused or showing feedback
+export const secondsLeft = (state: DrillState) => {
+  const at = state.pausedAt ?? (state.feedback ? state.answeredAt : state.now);
+  return Math.max(0, Math.ceil((state.deadline - at) / 1000));
+};
+
+export const buildDrillResult = (state: DrillState, date: Date = new Date()): DrillResult => {
+  const { topic, difficulty, settings } = state.config;
+  const { score, accuracy, stats, scoring } = scoreDrill(state.details, state.config.scoring);
+  return {
+    id: date.getTime().toString(),
+    date: date.toISOString(),
+    topic,
+    score,
+    totalQuestions: state.questions.length,
+    timeTaken: (state.now - state.startedAt) / 1000,
+    accuracy,
+    maxStreak: state.maxStreak,
+    difficulty,
+    stats,
+    scoring,
+    settings: { ...settings, questionCount: state.questions.length },
+    details: state.details
+  };
+};
@@ -0,0 +1,77 @@
+import { Question, QuestionProvider, QuestionType } from '../types';
+import { generateOfflineQuestions } from './offline';
+import { verifyQuestions } from './verification';
+import { drawQuestions, questionHash } from './questionBank';
+import { GenerationError, toGenerationError } from './generation';
+
+export interface LoadedQuestions {
+  questions: Question[];
+  offline: boolean; // True when some or all questions came from the local generators
+}
+
+export const MAX_ATTEMPTS = 3;
+const BACKOFF_MS = 800; // Doubles after every failed attempt
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Asks the provider until the batch is full: each retry only requests what's still
+// missing, and duplicates of questions already kept don't count. Returns whatever
+// it collected; throws the last error only when nothing usable came back.
+export const generateVerified = async (
+  provider: QuestionProvider,
+  topic: QuestionType,
+  count: number,
+  difficulty: number,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<Question[]> => {
+  const kept = new Map<string, Question>();
+  let lastError: GenerationError | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && kept.size < count; attempt++) {
+    if (attempt > 0) await wait(BACKOFF_MS * 2 ** (attempt - 1));
+    try {
+      const generated = await provider.generateQuestions(topic, count - kept.size, difficulty);
+      // Offline questions are correct by construction; everything else is checked
+      const verified = provider.id === 'offline' ? generated : verifyQuestions(generated);
+      if (verified.length === 0) lastError = new GenerationError('invalid', 'No generated question could be verified');
+      for (const question of verified) {
+        const hash = questionHash(question);
+        if (!kept.has(hash)) kept.set(hash, question);
+      }
+    } catch (error) {
+      lastError = toGenerationError(error);
+      console.error(`Question generation failed (attempt ${attempt + 1} of ${MAX_ATTEMPTS}):`, lastError);
+      if (!lastError.retryable) break;
+    }
+  }
+
+  if (kept.size === 0 && lastError) throw lastError;
+  return [...kept.values()].slice(0, count);
+};
+
+export const loadOfflineQuestions = (topic: QuestionType, count: number, difficulty: number): LoadedQuestions => ({
+  questions: generateOfflineQuestions(topic, count, Date.now(), difficulty),
+  offline: true
+});
+
+// Fetches a verified batch for one topic. With a profile, unseen questions from the
+// local bank come first. A partial batch tops up from the local generators; a
+// provider that returns nothing usable throws a GenerationError, so the caller can
+// offer a retry or the offline generators.
+export const loadDrillQuestions = async (
+  topic: QuestionType,
+  count: number,
+  provider: QuestionProvider,
+  difficulty: number,
+  profileId?: string
+): Promise<LoadedQuestions> => {
+  const fetchVerified = (n: number) => generateVerified(provider, topic, n, difficulty);
+  const fromProvider = profileId && provider.id !== 'offline'
+    ? await drawQuestions(profileId, topic, count, difficulty, provider.id, fetchVerified)
+    : await fetchVerified(count);
+
+  const questions = fromProvider.slice(0, count);
+  const missing = count - questions.length;
+  if (missing > 0) questions.push(...generateOfflineQuestions(topic, missing, Date.now(), difficulty));
+  return { questions, offline: provider.id === 'offline' || missing > 0 };
+};
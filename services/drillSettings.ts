@@ -0,0 +1,74 @@
+import { DrillResult, DrillSettings, ScoringPresetId, TimeLimitMode, User } from '../types';
+import { SCORING_PRESETS } from './scoring';
+
+// Per-profile drill settings. Stored settings and ones arriving in imports or
+// challenge links all pass through normalizeDrillSettings, so anything missing or
+// out of range falls back to something a drill can run with.
+
+export const DEFAULT_DRILL_COUNT = 5;
+export const MAX_DRILL_COUNT = 20;
+
+export const DEFAULT_DRILL_SETTINGS: DrillSettings = {
+  questionCount: DEFAULT_DRILL_COUNT,
+  timeLimitMode: 'per-question',
+  timeLimitSeconds: 30,
+  autoAdvanceMs: 1200,
+  showAnswerOnMiss: true,
+  difficulty: 'adaptive',
+  scoring: 'ibps'
+};
+
+export const TIME_LIMIT_LABELS: Record<TimeLimitMode, string> = {
+  'per-question': 'Per question',
+  'whole-drill': 'Whole drill'
+};
+
+export const TIME_LIMIT_RANGE: Record<TimeLimitMode, { min: number; max: number }> = {
+  'per-question': { min: 5, max: 300 },
+  'whole-drill': { min: 30, max: 3600 }
+};
+
+export const AUTO_ADVANCE_CHOICES = [0, 600, 1200, 2000, 3000];
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+export const normalizeDrillSettings = (settings?: Partial<DrillSettings>): DrillSettings => {
+  const s = settings ?? {};
+  const timeLimitMode = s.timeLimitMode === 'whole-drill' ? 'whole-drill' : 'per-question';
+  const range = TIME_LIMIT_RANGE[timeLimitMode];
+  const questionCount = clamp(s.questionCount, 1, MAX_DRILL_COUNT, DEFAULT_DRILL_SETTINGS.questionCount);
+  return {
+    questionCount,
+    timeLimitMode,
+    timeLimitSeconds: clamp(
+      s.timeLimitSeconds,
+      range.min,
+      range.max,
+      // A whole drill defaults to the per-question default for every question
+      timeLimitMode === 'whole-drill' ? DEFAULT_DRILL_SETTINGS.timeLimitSeconds * questionCount : DEFAULT_DRILL_SETTINGS.timeLimitSeconds
+    ),
+    autoAdvanceMs: clamp(s.autoAdvanceMs, 0, 5000, DEFAULT_DRILL_SETTINGS.autoAdvanceMs),
+    showAnswerOnMiss: typeof s.showAnswerOnMiss === 'boolean' ? s.showAnswerOnMiss : DEFAULT_DRILL_SETTINGS.showAnswerOnMiss,
+    difficulty: s.difficulty === 'adaptive' || s.difficulty === undefined ? 'adaptive' : clamp(s.difficulty, 1, 5, 3),
+    scoring: Object.keys(SCORING_PRESETS).includes(s.scoring as string) ? (s.scoring as ScoringPresetId) : DEFAULT_DRILL_SETTINGS.scoring
+  };
+};
+
+export const settingsOf = (user: User) => normalizeDrillSettings(user.settings);
+
+export const scoringOf = (settings: DrillSettings) => SCORING_PRESETS[settings.scoring].model;
+
+// Seconds one question may take; a whole-drill budget is shared out evenly
+export const questionTimeBudget = (settings: DrillSettings, questionCount: number = settings.questionCount) =>
+  settings.timeLimitMode === 'per-question' ? settings.timeLimitSeconds : settings.timeLimitSeconds / Math.max(1, questionCount);
+
+// Results from before settings were recorded ran 30 seconds a question
+export const resultTimeBudget = (result: DrillResult) =>
+  result.settings ? questionTimeBudget(result.settings, result.totalQuestions) : DEFAULT_DRILL_SETTINGS.timeLimitSeconds;
+
+const formatDuration = (seconds: number) =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : seconds > 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+
+export const describeTimeLimit = (settings: DrillSettings) =>
+  settings.timeLimitMode === 'per-question' ? `${settings.timeLimitSeconds}s per question` : `${formatDuration(settings.timeLimitSeconds)} for the drill`;
@@ -0,0 +1,196 @@
+// Small BODMAS evaluator for the arithmetic that shows up in question text:
+// + - × ÷ * / x, brackets, √ ∛, ² ³ ^, %, "of" and a single "?" unknown.
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'op'; value: string }
+  | { kind: 'unknown' };
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '×': '*', 'x': '*', 'X': '*', '*': '*', '·': '*',
+  '÷': '/', '/': '/',
+  '+': '+', '-': '-', '−': '-', '–': '-',
+  '^': '^', '²': '²', '³': '³', '%': '%',
+  '√': '√', '∛': '∛',
+  '(': '(', ')': ')', '[': '(', ']': ')', '{': '(', '}': ')'
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const text = input.replace(/,(?=\d{3}\b)/g, '');
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    // Plain fractions written without spaces ("3/4 of 128") bind tighter than "of"
+    const fraction = /^(\d+)\/(\d+)(?![\d.])/.exec(text.slice(i));
+    if (fraction && (i === 0 || !/[\d.]/.test(text[i - 1]))) {
+      tokens.push({ kind: 'num', value: Number(fraction[1]) / Number(fraction[2]) });
+      i += fraction[0].length;
+      continue;
+    }
+    const num = /^\d*\.?\d+/.exec(text.slice(i));
+    if (num) {
+      tokens.push({ kind: 'num', value: Number(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    if (text.slice(i, i + 2).toLowerCase() === 'of') {
+      tokens.push({ kind: 'op', value: 'of' });
+      i += 2;
+      continue;
+    }
+    if (ch === '?') {
+      tokens.push({ kind: 'unknown' });
+      i++;
+      continue;
+    }
+    const op = OPERATOR_ALIASES[ch];
+    if (!op) throw new Error(`Unexpected character "${ch}"`);
+    tokens.push({ kind: 'op', value: op });
+    i++;
+  }
+  return tokens;
+};
+
+const startsPrimary = (t: Token | undefined) =>
+  !!t && (t.kind !== 'op' || t.value === '(' || t.value === '√' || t.value === '∛');
+
+export const evaluate = (input: string, unknown?: number): number => {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const t = tokens[pos];
+    return !!t && t.kind === 'op' && t.value === value;
+  };
+
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[pos++] as { value: string }).value;
+      const rhs = parseTerm();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  // × and ÷ share precedence; juxtaposition ("2(3 + 4)", "3√16") is multiplication
+  const parseTerm = (): number => {
+    let value = parseOf();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = (tokens[pos++] as { value: string }).value;
+        const rhs = parseOf();
+        value = op === '*' ? value * rhs : value / rhs;
+      } else if (startsPrimary(peek())) {
+        value *= parseOf();
+      } else {
+        return value;
+      }
+    }
+  };
+
+  // "of" is resolved before ÷ and × (the O in BODMAS)
+  const parseOf = (): number => {
+    let value = parseUnary();
+    while (isOp('of')) {
+      pos++;
+      value *= parseUnary();
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      pos++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePostfix();
+    if (isOp('^')) {
+      pos++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePostfix = (): number => {
+    let value = parsePrimary();
+    for (;;) {
+      if (isOp('²')) value = value ** 2;
+      else if (isOp('³')) value = value ** 3;
+      else if (isOp('%')) value = value / 100;
+      else return value;
+      pos++;
+    }
+  };
+
+  const parsePrimary = (): number => {
+    const t = tokens[pos++];
+    if (!t) throw new Error('Unexpected end of expression');
+    if (t.kind === 'num') return t.value;
+    if (t.kind === 'unknown') {
+      if (unknown === undefined) throw new Error('Expression contains an unknown');
+      return unknown;
+    }
+    if (t.value === '(') {
+      const value = parseExpr();
+      if (!isOp(')')) throw new Error('Unbalanced brackets');
+      pos++;
+      return value;
+    }
+    // √ covers the following number or bracket only: √16² reads as (√16)²
+    if (t.value === '√') return Math.sqrt(parsePrimary());
+    if (t.value === '∛') return Math.cbrt(parsePrimary());
+    throw new Error(`Unexpected operator "${t.value}"`);
+  };
+
+  const result = parseExpr();
+  if (pos !== tokens.length) throw new Error('Unexpected trailing input');
+  if (!Number.isFinite(result)) throw new Error('Expression is not finite');
+  return result;
+};
+
+export interface Equation {
+  lhs: string;
+  rhs: string;
+  approximate: boolean;
+}
+
+// Splits "expr = ?" / "? ≈ expr" question text into its two sides, dropping any leading prose
+export const parseEquation = (questionText: string): Equation | null => {
+  const text = questionText
+    .replace(/\s+/g, ' ')
+    .replace(/^[^0-9√∛(\[{?−-]*?(?=[0-9√∛(\[{?−-])/, '')
+    .trim();
+  const match = /^(.*?)\s*(≈|~|=)\s*(.*)$/.exec(text);
+  if (!match) {
+    // "What is 15% of 240?" - no equals sign, the trailing ? is punctuation
+    const expr = text.replace(/\?\s*$/, '').trim();
+    return expr ? { lhs: expr, rhs: '?', approximate: false } : null;
+  }
+  const [, lhs, sign, rhs] = match;
+  if (!lhs || !rhs) return null;
+  return { lhs, rhs, approximate: sign !== '=' };
+};
+
+// Parses an option such as "1,250", "-3.5", "3/4" or "12%"; returns null for anything else
+export const parseNumber = (input: string): number | null => {
+  const text = input.trim().replace(/[−–]/g, '-').replace(/,(?=\d{3}\b)/g, '').replace(/\s+/g, '');
+  if (/^-?\d*\.?\d+%?$/.test(text)) return Number(text.replace('%', ''));
+  const fraction = /^(-?\d+)\/(\d+)$/.exec(text);
+  if (fraction && Number(fraction[2]) !== 0) return Number(fraction[1]) / Number(fraction[2]);
+  return null;
+};
@@ -0,0 +1,211 @@
+import { CoachProvider, DataSet, Question, QuestionProvider, QuestionType } from '../types';
+import { QUADRATIC_OPTIONS, generateOfflineQuestions } from './offline';
+import { QUESTION_TYPE_KEYS } from './topics';
+import { toCoachReport } from './coach';
+import { dataSetId } from './dataInterpretation';
+
+// Deterministic provider: the same topic and count always yield the same questions
+// and the same advice, with no network and no randomness. Handy for tests and demos.
+
+type Fixture = Omit<Question, 'id' | 'type' | 'difficulty'>;
+
+const FIXTURE_SEED = 20240101;
+
+const STORE_SALES_DATA = {
+  categories: ['2020', '2021', '2022'],
+  series: [
+    { name: 'Store A', values: [120, 150, 180] },
+    { name: 'Store B', values: [100, 125, 160] }
+  ]
+};
+
+const STORE_SALES: DataSet = {
+  id: dataSetId(STORE_SALES_DATA),
+  kind: 'bar',
+  title: 'Units sold by two stores',
+  unit: 'units',
+  ...STORE_SALES_DATA
+};
+
+const FIXTURES: Record<Question['type'], Fixture[]> = {
+  simplification: [
+    {
+      questionText: '45 × 12 + 36 ÷ 4 = ?',
+      correctAnswer: '549',
+      explanation: 'BODMAS: 36 ÷ 4 = 9; 45 × 12 = 540; 540 + 9 = 549.',
+      options: ['539', '545', '549', '551', '559']
+    },
+    {
+      questionText: '25% of 640 + 15² - 85 = ?',
+      correctAnswer: '300',
+      explanation: 'BODMAS: 25% of 640 = 160; 15² = 225; 160 + 225 - 85 = 300.',
+      options: ['290', '295', '300', '305', '310']
+    }
+  ],
+  series: [
+    {
+      questionText: 'Find the missing term: 3, 6, 12, ?, 48, 96',
+      correctAnswer: '24',
+      explanation: 'Each term doubles. Missing term = 12 × 2 = 24.',
+      options: ['18', '20', '24', '28', '36']
+    },
+    {
+      questionText: 'Find the missing term: 11, 23, 35, 47, ?, 71',
+      correctAnswer: '59',
+      explanation: 'Each term increases by 12. Missing term = 47 + 12 = 59.',
+      options: ['55', '57', '59', '61', '63']
+    }
+  ],
+  quadratic: [
+    {
+      questionText: 'I. x² - 5x + 6 = 0\nII. y² - 9y + 20 = 0',
+      correctAnswer: 'x < y',
+      explanation: 'x = 2, 3; y = 4, 5. Every x is smaller than every y, so x < y.',
+      options: QUADRATIC_OPTIONS
+    },
+    {
+      questionText: 'I. x² - 11x + 30 = 0\nII. y² - 7y + 12 = 0',
+      correctAnswer: 'x > y',
+      explanation: 'x = 5, 6; y = 3, 4. Every x is larger than every y, so x > y.',
+      options: QUADRATIC_OPTIONS
+    }
+  ],
+  approximation: [
+    {
+      questionText: '24.98% of 801.03 + 49.97 ≈ ?',
+      correctAnswer: '250',
+      explanation: '≈ 25% of 800 + 50 = 200 + 50 = 250.',
+      options: ['210', '230', '250', '270', '290']
+    },
+    {
+      questionText: '143.98 ÷ 12.02 × 6.99 ≈ ?',
+      correctAnswer: '84',
+      explanation: '≈ 144 ÷ 12 × 7 = 12 × 7 = 84.',
+      options: ['64', '74', '84', '94', '104']
+    }
+  ],
+  di: [
+    {
+      questionText: "What is the percentage change in Store A's sales from 2020 to 2022?",
+      correctAnswer: '50',
+      explanation: '(180 - 120) ÷ 120 × 100 = 50',
+      options: ['40', '45', '50', '55', '60'],
+      dataSet: STORE_SALES,
+      formula: '({Store A|2022} - {Store A|2020}) ÷ {Store A|2020} × 100'
+    },
+    {
+      questionText: 'What is the total number of units sold by Store B over the three years?',
+      correctAnswer: '385',
+      explanation: '100 + 125 + 160 = 385',
+      options: ['365', '375', '385', '395', '405'],
+      dataSet: STORE_SALES,
+      formula: '{Store B|2020} + {Store B|2021} + {Store B|2022}'
+    }
+  ],
+  percentage: [
+    {
+      questionText: 'What is 35% of 840?',
+      correctAnswer: '294',
+      explanation: 'p% of n = p ÷ 100 × n: 35 ÷ 100 × 840 = 294.',
+      options: ['274', '284', '294', '304', '314'],
+      formula: '35 ÷ 100 × 840'
+    },
+    {
+      questionText: 'After a 20% raise, a salary is ₹576. What was the salary before the raise (₹)?',
+      correctAnswer: '480',
+      explanation: 'Original = new × 100 ÷ (100 + increase%): 576 × 100 ÷ 120 = 480.',
+      options: ['460', '470', '480', '490', '500'],
+      formula: '576 × 100 ÷ (100 + 20)'
+    }
+  ],
+  'profit-loss': [
+    {
+      questionText: 'An article bought for ₹640 is sold at a profit of 15%. What is its selling price (₹)?',
+      correctAnswer: '736',
+      explanation: 'SP = CP × (100 + profit%) ÷ 100: 640 × 115 ÷ 100 = 736.',
+      options: ['716', '726', '736', '746', '756'],
+      formula: '640 × (100 + 15) ÷ 100'
+    },
+    {
+      questionText: 'A shopkeeper sells an item for ₹810 at a loss of 10%. What was its cost price (₹)?',
+      correctAnswer: '900',
+      explanation: 'CP = SP × 100 ÷ (100 - loss%): 810 × 100 ÷ 90 = 900.',
+      options: ['880', '890', '900', '910', '920'],
+      formula: '810 × 100 ÷ (100 - 10)'
+    }
+  ],
+  interest: [
+    {
+      questionText: 'What is the simple interest on ₹6000 at 8% per annum for 3 years (₹)?',
+      correctAnswer: '1440',
+      explanation: 'SI = P × R × T ÷ 100: 6000 × 8 × 3 ÷ 100 = 1440.',
+      options: ['1240', '1340', '1440', '1540', '1640'],
+      formula: '6000 × 8 × 3 ÷ 100'
+    },
+    {
+      questionText: 'What is the compound interest on ₹10000 at 10% per annum for 2 years, compounded annually (₹)?',
+      correctAnswer: '2100',
+      explanation: 'CI = P × (1 + R/100)^n - P: 10000 × 1.21 - 10000 = 2100.',
+      options: ['2000', '2050', '2100', '2150', '2200'],
+      formula: '10000 × (1 + 10 ÷ 100)^2 - 10000'
+    }
+  ],
+  'time-work': [
+    {
+      questionText: 'A can finish a piece of work in 12 days and B in 24 days. Working together, in how many days will they finish it?',
+      correctAnswer: '8',
+      explanation: 'Together = A × B ÷ (A + B): 12 × 24 ÷ 36 = 8.',
+      options: ['6', '7', '8', '9', '10'],
+      formula: '12 × 24 ÷ (12 + 24)'
+    },
+    {
+      questionText: '15 men can complete a job in 24 days. How many days would 20 men take to complete the same job?',
+      correctAnswer: '18',
+      explanation: 'Man-days are constant: 15 × 24 ÷ 20 = 18.',
+      options: ['16', '17', '18', '19', '20'],
+      formula: '15 × 24 ÷ 20'
+    }
+  ],
+  ratio: [
+    {
+      questionText: "₹2400 is divided between A and B in the ratio 3:5. What is B's share (₹)?",
+      correctAnswer: '1500',
+      explanation: "B's share = 2400 × 5 ÷ 8 = 1500.",
+      options: ['1300', '1400', '1500', '1600', '1700'],
+      formula: '2400 × 5 ÷ (3 + 5)'
+    },
+    {
+      questionText: "A:B = 2:3 and B:C = 4:5. If A, B and C share ₹3500 in this proportion, what is C's share (₹)?",
+      correctAnswer: '1500',
+      explanation: "A:B:C = 8:12:15, so C's share = 3500 × 15 ÷ 35 = 1500.",
+      options: ['1300', '1400', '1500', '1600', '1700'],
+      formula: '3500 × 3 × 5 ÷ (2 × 4 + 3 × 4 + 3 × 5)'
+    }
+  ]
+};
+
+// Shaped like a model response, so it exercises the same parsing path
+export const FIXTURE_COACH_RESPONSE = {
+  summary: 'Solid start. Tighten up the arithmetic and the pace will follow.',
+  mistakes: [{ questionNumber: 1, category: 'calculation', note: 'Check the unit digit before committing.' }],
+  techniques: [
+    { title: 'Squares by heart', description: 'Memorize squares up to 30 and cubes up to 20 to speed up simplification.' },
+    { title: 'Differences first', description: 'For series, check differences first, then ratios, before trying mixed patterns.' }
+  ],
+  nextDrill: { topic: QuestionType.SIMPLIFICATION, difficulty: 3, count: 5, reason: 'Fixture recommendation.' }
+};
+
+export const fixtureProvider: QuestionProvider & CoachProvider = {
+  id: 'fixture',
+  label: 'Fixtures',
+
+  generateQuestions: async (topic: QuestionType, count: number, difficulty: number) => {
+    const type = QUESTION_TYPE_KEYS[topic];
+    const fixtures = FIXTURES[type].slice(0, count).map(f => ({ ...f, type, difficulty }));
+    // Past the hand-written ones, a fixed seed keeps the batch unique and still deterministic
+    const extra = generateOfflineQuestions(topic, Math.max(0, count - fixtures.length), FIXTURE_SEED, difficulty);
+    return [...fixtures, ...extra].map((q, i) => ({ ...q, id: `fixture-${type}-${i}` }));
+  },
+
+  analyzeDrill: async (summary) => toCoachReport(FIXTURE_COACH_RESPONSE, summary)
+};
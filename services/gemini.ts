@@ -1,86 +1,140 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Question, QuestionType } from '../types';
+import { CoachProvider, DrillSummary, QuestionProvider, QuestionType } from '../types';
+import { coachPrompt, questionPrompt } from './prompts';
+import { GenerationError, toGenerationError, toQuestions } from './generation';
+import { ERROR_CATEGORIES, ruleBasedReport, toCoachReport } from './coach';
+import { QUESTION_KEYS } from './topics';
 
-const apiKey = process.env.API_KEY || ''; 
+const apiKey = process.env.API_KEY || '';
 const ai = new GoogleGenAI({ apiKey });
 
-export const generateQuestions = async (topic: QuestionType, count: number = 5): Promise<Question[]> => {
-  const model = "gemini-2.5-flash";
+export const GEMINI_DEFAULT_MODEL = "gemini-2.5-flash";
 
-  // Define the schema for structured output
-  const responseSchema: Schema = {
-    type: Type.ARRAY,
-    items: {
+// Define the schema for structured output
+const responseSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      type: { type: Type.STRING, enum: QUESTION_KEYS },
+      questionText: { type: Type.STRING, description: "The mathematical problem statement. For quadratic, provide two equations labeled I and II." },
+      correctAnswer: { type: Type.STRING, description: "The precise numerical answer or relationship (e.g., x > y)." },
+      explanation: { type: Type.STRING, description: "Short step-by-step logic to solve it." },
+      difficulty: { type: Type.INTEGER, description: "Difficulty level from 1 (easy) to 5 (toughest)." },
+      options: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Exactly 5 plausible options including the correct one."
+      },
+      dataSet: {
+        type: Type.OBJECT,
+        description: "Data Interpretation only: the table or chart shared by every question in the set.",
+        properties: {
+          kind: { type: Type.STRING, enum: ['table', 'bar', 'line', 'pie'] },
+          title: { type: Type.STRING },
+          unit: { type: Type.STRING },
+          categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+          series: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+              },
+              required: ["name", "values"]
+            }
+          }
+        },
+        required: ["kind", "title", "categories", "series"]
+      },
+      formula: { type: Type.STRING, description: "Arithmetic and Data Interpretation: the answer as a BODMAS expression; DI cells are written {Series|Category}." }
+    },
+    required: ["id", "type", "questionText", "correctAnswer", "explanation", "options"]
+  }
+};
+
+const coachSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    mistakes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionNumber: { type: Type.INTEGER },
+          category: { type: Type.STRING, enum: ERROR_CATEGORIES },
+          note: { type: Type.STRING }
+        },
+        required: ["questionNumber", "category", "note"]
+      }
+    },
+    techniques: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ["title", "description"]
+      }
+    },
+    nextDrill: {
       type: Type.OBJECT,
       properties: {
-        id: { type: Type.STRING },
-        type: { type: Type.STRING, enum: ['simplification', 'series', 'quadratic', 'approximation'] },
-        questionText: { type: Type.STRING, description: "The mathematical problem statement. For quadratic, provide two equations labeled I and II." },
-        correctAnswer: { type: Type.STRING, description: "The precise numerical answer or relationship (e.g., x > y)." },
-        explanation: { type: Type.STRING, description: "Short step-by-step logic to solve it." },
-        options: { 
-          type: Type.ARRAY, 
-          items: { type: Type.STRING },
-          description: "Exactly 5 plausible options including the correct one."
-        }
+        topic: { type: Type.STRING, enum: Object.values(QuestionType) },
+        difficulty: { type: Type.INTEGER },
+        count: { type: Type.INTEGER },
+        reason: { type: Type.STRING }
       },
-      required: ["id", "type", "questionText", "correctAnswer", "explanation", "options"]
+      required: ["topic", "difficulty", "count", "reason"]
     }
-  };
-
-  const prompt = `
-    Generate ${count} unique, challenging IBPS RRB PO level math questions for the topic: "${topic}".
-    
-    Guidelines:
-    - **Options**: EXACTLY 5 options are required for every question.
-    - **Simplification/Approximation**: Use standard BODMAS. For Approximation, use values like 14.99% or 120.01. Answer matches one option exactly.
-    - **Number Series**: Provide the sequence. Question text: "Find the missing term: 12, 24, ?, 96".
-    - **Quadratic Equations**: Two equations (I and II). Answer choices MUST be: "x > y", "x >= y", "x < y", "x <= y", "x = y or no relation".
-    - **Difficulty**: Moderate to High (PO Prelims/Mains level).
-    
-    Ensure answers are unambiguous.
-  `;
+  },
+  required: ["summary", "mistakes", "techniques", "nextDrill"]
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.7 // Slight randomness for variety
-      }
-    });
+export const createGeminiProvider = (model: string = GEMINI_DEFAULT_MODEL): QuestionProvider & CoachProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
 
-    const jsonText = response.text;
-    if (!jsonText) return [];
-    
-    const parsed = JSON.parse(jsonText);
-    return parsed as Question[];
-  } catch (error) {
-    console.error("Failed to generate questions:", error);
-    // Fallback or re-throw depending on app needs
-    return [];
-  }
-};
+  generateQuestions: async (topic: QuestionType, count: number, difficulty: number) => {
+    if (!apiKey) throw new GenerationError('auth', 'No Gemini API key is configured');
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: questionPrompt(topic, count, difficulty),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: responseSchema,
+          temperature: 0.7 // Slight randomness for variety
+        }
+      });
 
-export const getDrillAnalysis = async (results: any): Promise<string> => {
-   const model = "gemini-2.5-flash";
-   const prompt = `
-     Analyze this student's math drill performance:
-     ${JSON.stringify(results)}
-     
-     Provide 3 concise, bullet-pointed tips to improve their speed and accuracy for IBPS PO exams. Focus on the types of errors made and time management.
-     Be encouraging but technical (e.g., "Use unit digit method" or "Memorize squares up to 30").
-   `;
+      const jsonText = response.text;
+      if (!jsonText) throw new GenerationError('malformed', 'Empty response');
+      return toQuestions(JSON.parse(jsonText), topic, difficulty);
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+  },
 
-   try {
-     const response = await ai.models.generateContent({
-       model,
-       contents: prompt,
-     });
-     return response.text || "Keep practicing to improve speed!";
-   } catch (e) {
-     return "Great effort! Consistency is key.";
-   }
-};
\ No newline at end of file
+  analyzeDrill: async (summary: DrillSummary) => {
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: coachPrompt(summary),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: coachSchema
+        }
+      });
+      return response.text ? toCoachReport(JSON.parse(response.text), summary) : ruleBasedReport(summary);
+    } catch (error) {
+      console.error("Failed to get drill analysis:", error);
+      return ruleBasedReport(summary);
+    }
+  }
+});
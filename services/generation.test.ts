@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QuestionType } from '../types';
+import { GenerationError, toGenerationError, toQuestions, validateQuestion } from './generation';
+import { generateVerified } from './drillQuestions';
+import { fixtureProvider } from './fixtures';
+
+const raw = (extra: object = {}) => ({
+  id: '1',
+  type: 'simplification',
+  questionText: '12 × 5 = ?',
+  correctAnswer: '60',
+  explanation: '12 × 5 = 60',
+  options: ['50', '55', '60', '65', '70'],
+  ...extra
+});
+
+describe('validateQuestion', () => {
+  it('gives a valid question a local id in place of the model one', () => {
+    const question = validateQuestion(raw(), QuestionType.SIMPLIFICATION, 3);
+    expect(question).toMatchObject({ type: 'simplification', correctAnswer: '60', difficulty: 3 });
+    expect(typeof question === 'object' && question.id).toMatch(/^gen-/);
+  });
+
+  it.each([
+    ['a wrong topic', raw({ type: 'series' }), 'is not "simplification"'],
+    ['four options', raw({ options: ['50', '55', '60', '65'] }), '4 options instead of 5'],
+    ['duplicate options', raw({ options: ['50', '60', '60', '65', '70'] }), 'duplicate options'],
+    ['a key outside the options', raw({ correctAnswer: '61' }), 'is not one of the options'],
+    ['a non-object', 'question', 'not an object'],
+    ['a dataSet without series', raw({ dataSet: { kind: 'bar', title: 'Sales', categories: ['2020'], series: 'A' } }), 'dataSet'],
+    ['a dataSet with a missing value', raw({ dataSet: { kind: 'bar', title: 'Sales', categories: ['2020', '2021'], series: [{ name: 'A', values: [1, '2'] }] } }), 'dataSet']
+  ])('rejects %s', (_, input, reason) => {
+    expect(validateQuestion(input, QuestionType.SIMPLIFICATION, 3)).toContain(reason);
+  });
+
+  it('keeps a complete dataSet and ids it by content', () => {
+    const dataSet = { kind: 'table', title: 'Sales', categories: ['2020', '2021'], series: [{ name: 'A', values: [1, 2] }] };
+    const question = validateQuestion(raw({ dataSet }), QuestionType.SIMPLIFICATION, 3);
+    expect(typeof question === 'object' && question.dataSet).toMatchObject({ ...dataSet, id: expect.stringMatching(/^ds-/) });
+    expect(validateQuestion(raw({ dataSet: null }), QuestionType.SIMPLIFICATION, 3)).not.toHaveProperty('dataSet');
+  });
+});
+
+describe('toQuestions', () => {
+  it('keeps the valid part of a batch with unique ids', () => {
+    const questions = toQuestions({ questions: [raw(), raw({ options: [] }), raw({ questionText: '13 × 5 = ?', correctAnswer: '65' })] }, QuestionType.SIMPLIFICATION, 3);
+    expect(questions).toHaveLength(2);
+    expect(new Set(questions.map(q => q.id)).size).toBe(2);
+  });
+
+  it('throws typed errors for an unreadable or wholly invalid batch', () => {
+    expect(() => toQuestions({ nope: true }, QuestionType.SIMPLIFICATION, 3)).toThrow(expect.objectContaining({ kind: 'malformed' }));
+    expect(() => toQuestions([raw({ type: 'series' })], QuestionType.SIMPLIFICATION, 3)).toThrow(expect.objectContaining({ kind: 'invalid' }));
+  });
+});
+
+describe('toGenerationError', () => {
+  it('classifies by the SDK status, not by numbers in the message', () => {
+    expect(toGenerationError(Object.assign(new Error('denied'), { status: 403 })).kind).toBe('auth');
+    expect(toGenerationError(new Error('Expected 401 items')).kind).toBe('network');
+    expect(toGenerationError(new SyntaxError('Unexpected token')).kind).toBe('malformed');
+  });
+});
+
+describe('generateVerified', () => {
+  it('fills a fixture drill on the first attempt with the same questions every time', async () => {
+    const wait = vi.fn(async () => {});
+    const spy = vi.spyOn(fixtureProvider, 'generateQuestions');
+    const first = await generateVerified(fixtureProvider, QuestionType.SIMPLIFICATION, 8, 3, wait);
+    const second = await generateVerified(fixtureProvider, QuestionType.SIMPLIFICATION, 8, 3, wait);
+    expect(first).toHaveLength(8);
+    expect(second.map(q => q.questionText)).toEqual(first.map(q => q.questionText));
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(wait).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('retries with backoff for the missing questions and stops on an auth error', async () => {
+    const wait = vi.fn(async () => {});
+    const [a, b] = await fixtureProvider.generateQuestions(QuestionType.SIMPLIFICATION, 2, 3);
+    // A failure, then one new question, then a repeat of it alongside a second new one
+    const generate = vi
+      .fn()
+      .mockRejectedValueOnce(new GenerationError('network', 'offline'))
+      .mockResolvedValueOnce([a])
+      .mockResolvedValueOnce([a, b]);
+    const flaky = { id: 'gemini' as const, label: 'Flaky', generateQuestions: generate };
+    const questions = await generateVerified(flaky, QuestionType.SIMPLIFICATION, 3, 3, wait);
+    expect(questions.map(q => q.questionText)).toEqual([a.questionText, b.questionText]);
+    expect(wait.mock.calls).toEqual([[800], [1600]]);
+    expect(generate.mock.calls.map(c => c[1])).toEqual([3, 3, 2]);
+
+    const locked = { id: 'gemini' as const, label: 'Locked', generateQuestions: vi.fn().mockRejectedValue(new GenerationError('auth', 'no key')) };
+    await expect(generateVerified(locked, QuestionType.SIMPLIFICATION, 3, 3, wait)).rejects.toMatchObject({ kind: 'auth' });
+    expect(locked.generateQuestions).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { Question, QuestionKey, QuestionType } from '../types';
+import { dataSetId, isDataSet } from './dataInterpretation';
+import { QUESTION_TYPE_KEYS } from './topics';
+
+// Runtime checks on model output. Providers parse responses through toQuestions,
+// which keeps only questions that pass validateQuestion, gives every one a locally
+// unique id, and reports failures as a GenerationError the UI can act on.
+
+export type GenerationErrorKind = 'auth' | 'network' | 'malformed' | 'invalid';
+
+export const GENERATION_ERROR_LABELS: Record<GenerationErrorKind, string> = {
+  auth: 'The question provider rejected the request. Check the API key in Model Settings.',
+  network: "Couldn't reach the question provider.",
+  malformed: "The question provider's response couldn't be read.",
+  invalid: 'None of the generated questions passed validation.'
+};
+
+export class GenerationError extends Error {
+  constructor(readonly kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+
+  // A bad key stays bad; anything else may work on the next attempt
+  get retryable() {
+    return this.kind !== 'auth';
+  }
+}
+
+export const statusErrorKind = (status: number): GenerationErrorKind => (status === 401 || status === 403 ? 'auth' : 'network');
+
+// Anything a provider throws becomes a GenerationError. An HTTP status, where the SDK
+// reports one, decides the kind; the message text never does.
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyntaxError) return new GenerationError('malformed', message);
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+  return new GenerationError(typeof status === 'number' ? statusErrorKind(status) : 'network', message);
+};
+
+export const OPTION_COUNT = 5;
+
+// Model ids repeat across batches ("1", "2", ...), so every question gets one of ours
+let sequence = 0;
+export const generatedId = () => `gen-${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// The question, or why it was rejected
+export const validateQuestion = (raw: unknown, topic: QuestionType, difficulty: number): Question | string => {
+  if (!isObject(raw)) return 'not an object';
+  const type: QuestionKey = QUESTION_TYPE_KEYS[topic];
+  if (raw.type !== type) return `type "${String(raw.type)}" is not "${type}"`;
+  if (!nonEmpty(raw.questionText)) return 'missing questionText';
+  if (!nonEmpty(raw.correctAnswer)) return 'missing correctAnswer';
+
+  if (!Array.isArray(raw.options) || !raw.options.every(nonEmpty)) return 'options must be a list of strings';
+  const options = (raw.options as string[]).map(o => o.trim());
+  if (options.length !== OPTION_COUNT) return `${options.length} options instead of ${OPTION_COUNT}`;
+  if (new Set(options).size !== options.length) return 'duplicate options';
+  const key = raw.correctAnswer.trim();
+  const correctAnswer = options.find(o => o === key);
+  if (!correctAnswer) return `correctAnswer "${key}" is not one of the options`;
+  // Models write null for "no dataset"; anything else has to be a whole chart
+  if (raw.dataSet != null && !isDataSet(raw.dataSet)) return 'dataSet needs a chart kind, a title and one number per category in every series';
+
+  const level = Number(raw.difficulty);
+  const dataSet = isDataSet(raw.dataSet) ? raw.dataSet : undefined;
+  return {
+    id: generatedId(),
+    type,
+    questionText: raw.questionText,
+    correctAnswer,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+    options,
+    difficulty: Number.isInteger(level) && level >= 1 && level <= 5 ? level : difficulty,
+    // Models don't number their datasets, so sets are identified by content
+    ...(dataSet ? { dataSet: { ...dataSet, id: dataSet.id || dataSetId(dataSet) } } : {}),
+    ...(nonEmpty(raw.formula) ? { formula: raw.formula } : {})
+  };
+};
+
+// Accepts a bare array or a {"questions": [...]} wrapper. A partly valid batch keeps
+// its valid questions; a batch with none throws so the caller can retry.
+export const toQuestions = (parsed: unknown, topic: QuestionType, difficulty: number): Question[] => {
+  const list = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) throw new GenerationError('malformed', 'Response has no list of questions');
+
+  const questions: Question[] = [];
+  const rejected: string[] = [];
+  list.forEach((raw, i) => {
+    const checked = validateQuestion(raw, topic, difficulty);
+    if (typeof checked === 'string') rejected.push(`#${i + 1}: ${checked}`);
+    else questions.push(checked);
+  });
+  if (rejected.length > 0) console.warn(`Rejected ${rejected.length} generated question(s): ${rejected.join('; ')}`);
+  if (questions.length === 0 && list.length > 0) throw new GenerationError('invalid', rejected[0]);
+  return questions;
+};
@@ -0,0 +1,76 @@
+import { HotkeyAction, HotkeyBindings } from '../types';
+
+// Drill keyboard shortcuts. Bindings are a device preference (they follow the
+// keyboard, not the aspirant), so they live in localStorage.
+
+const HOTKEYS_KEY = 'rapidmath.hotkeys';
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  option1: ['a', '1'],
+  option2: ['b', '2'],
+  option3: ['c', '3'],
+  option4: ['d', '4'],
+  option5: ['e', '5'],
+  submit: ['enter'],
+  skip: ['s'],
+  pause: ['p'],
+  abort: ['escape'],
+  focusAnswer: ['/']
+};
+
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  option1: 'Pick option A',
+  option2: 'Pick option B',
+  option3: 'Pick option C',
+  option4: 'Pick option D',
+  option5: 'Pick option E',
+  submit: 'Submit answer',
+  skip: 'Skip question',
+  pause: 'Pause / resume',
+  abort: 'Abort drill',
+  focusAnswer: 'Type an answer'
+};
+
+export const OPTION_ACTIONS: HotkeyAction[] = ['option1', 'option2', 'option3', 'option4', 'option5'];
+
+export const normalizeKey = (key: string) => key.toLowerCase();
+
+export const formatKey = (key: string) => {
+  if (key === 'escape') return 'Esc';
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+};
+
+export const actionForKey = (bindings: HotkeyBindings, key: string): HotkeyAction | null => {
+  const normalized = normalizeKey(key);
+  const entry = (Object.entries(bindings) as [HotkeyAction, string[]][]).find(([, keys]) => keys.includes(normalized));
+  return entry ? entry[0] : null;
+};
+
+// Binds `key` to `action`, taking it away from whichever action had it so no key is ambiguous
+export const bindKey = (bindings: HotkeyBindings, action: HotkeyAction, key: string): HotkeyBindings => {
+  const normalized = normalizeKey(key);
+  const next = Object.fromEntries(
+    (Object.entries(bindings) as [HotkeyAction, string[]][]).map(([a, keys]) => [a, keys.filter(k => k !== normalized)])
+  ) as HotkeyBindings;
+  next[action] = [...next[action], normalized];
+  return next;
+};
+
+export const unbindKey = (bindings: HotkeyBindings, action: HotkeyAction, key: string): HotkeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter(k => k !== key)
+});
+
+export const loadHotkeys = (): HotkeyBindings => {
+  try {
+    const stored = localStorage.getItem(HOTKEYS_KEY);
+    return stored ? { ...DEFAULT_HOTKEYS, ...JSON.parse(stored) } : DEFAULT_HOTKEYS;
+  } catch {
+    return DEFAULT_HOTKEYS;
+  }
+};
+
+export const saveHotkeys = (bindings: HotkeyBindings) => {
+  localStorage.setItem(HOTKEYS_KEY, JSON.stringify(bindings));
+};
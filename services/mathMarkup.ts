@@ -0,0 +1,126 @@
+// A plain-text maths markup that stays readable unrendered and that the BODMAS
+// evaluator already understands: x^2 or x^{n+1} for powers, √784 or √{a + b} for
+// roots (∛ for cube roots), 3/4 or {a + b}/{c} for stacked fractions. Braces only
+// group and are never shown; * becomes × and a spaced " / " becomes ÷.
+
+export const MATH_MARKUP_GUIDE =
+  'Write maths in questionText, options and explanation as plain text: × and ÷ for operators, x^2 or x^{n+1} for powers ' +
+  '(² and ³ are fine too), √784 or √{a + b} for roots (∛ for cube roots), and 3/4 or {a + b}/{c} for fractions. No LaTeX or HTML.';
+
+export type MathNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'sup'; children: MathNode[] }
+  | { kind: 'root'; degree: 2 | 3; children: MathNode[] }
+  | { kind: 'frac'; numerator: MathNode[]; denominator: MathNode[] };
+
+const NUMBER = /^\d+(?:\.\d+)?/;
+
+class MarkupError extends Error {}
+
+// Adjacent text nodes are merged so the renderer emits as few spans as possible
+const push = (nodes: MathNode[], node: MathNode) => {
+  const last = nodes[nodes.length - 1];
+  if (node.kind === 'text' && last?.kind === 'text') last.text += node.text;
+  else nodes.push(node);
+};
+
+export const parseMath = (input: string): MathNode[] | null => {
+  let pos = 0;
+
+  // A brace group's contents, or a bracketed group with its brackets kept or dropped
+  const group = (close: string, keep: boolean): MathNode[] => {
+    const open = input[pos++];
+    const children = sequence(close);
+    if (input[pos] !== close) throw new MarkupError(`Unclosed "${open}"`);
+    pos++;
+    return keep ? [{ kind: 'text', text: open }, ...children, { kind: 'text', text: close }] : children;
+  };
+
+  // What ^, √ and / apply to: a number, a {group}, a (group) or a single letter
+  const operand = (keepBrackets: boolean): MathNode[] | null => {
+    const ch = input[pos];
+    if (ch === '{') return group('}', false);
+    if (ch === '(') return group(')', keepBrackets);
+    const num = NUMBER.exec(input.slice(pos));
+    if (num) {
+      pos += num[0].length;
+      return [{ kind: 'text', text: num[0] }];
+    }
+    if (ch && /[a-zA-Z]/.test(ch)) {
+      pos++;
+      return [{ kind: 'text', text: ch }];
+    }
+    return null;
+  };
+
+  const startsOperand = (ch: string | undefined) => !!ch && /[\d{(]/.test(ch);
+
+  // A number or group immediately followed by "/" and another number or group is a fraction
+  const maybeFraction = (nodes: MathNode[], numerator: MathNode[], numeratorBrackets: boolean) => {
+    if (input[pos] === '/' && startsOperand(input[pos + 1])) {
+      pos++;
+      const denominator = operand(false)!;
+      push(nodes, { kind: 'frac', numerator, denominator });
+    } else if (numeratorBrackets) {
+      nodes.push(...numerator);
+    } else {
+      for (const node of numerator) push(nodes, node);
+    }
+  };
+
+  const sequence = (close?: string): MathNode[] => {
+    const nodes: MathNode[] = [];
+    while (pos < input.length && input[pos] !== close) {
+      const ch = input[pos];
+      if (ch === '}' || ch === ')') {
+        if (ch === '}') throw new MarkupError('Unmatched "}"');
+        push(nodes, { kind: 'text', text: ch });
+        pos++;
+      } else if (ch === '{') {
+        maybeFraction(nodes, group('}', false), false);
+      } else if (ch === '(') {
+        const start = pos;
+        const inner = group(')', false);
+        // Brackets only disappear when they become a fraction's bar
+        if (input[pos] === '/' && startsOperand(input[pos + 1])) maybeFraction(nodes, inner, false);
+        else {
+          pos = start;
+          nodes.push(...group(')', true));
+        }
+      } else if (/\d/.test(ch) && !/[\d.]/.test(input[pos - 1] ?? '')) {
+        const num = NUMBER.exec(input.slice(pos))![0];
+        pos += num.length;
+        maybeFraction(nodes, [{ kind: 'text', text: num }], false);
+      } else if (ch === '^') {
+        pos++;
+        const children = operand(false);
+        push(nodes, children ? { kind: 'sup', children } : { kind: 'text', text: '^' });
+      } else if (ch === '√' || ch === '∛') {
+        pos++;
+        const children = operand(false);
+        push(nodes, children ? { kind: 'root', degree: ch === '√' ? 2 : 3, children } : { kind: 'text', text: ch });
+      } else if (ch === '*' && input[pos - 1] !== '*' && input[pos + 1] !== '*') {
+        push(nodes, { kind: 'text', text: '×' });
+        pos++;
+      } else if (ch === '/' && input[pos - 1] === ' ' && input[pos + 1] === ' ') {
+        push(nodes, { kind: 'text', text: '÷' });
+        pos++;
+      } else {
+        push(nodes, { kind: 'text', text: ch });
+        pos++;
+      }
+    }
+    return nodes;
+  };
+
+  try {
+    const nodes = sequence();
+    return pos === input.length ? nodes : null;
+  } catch (error) {
+    if (error instanceof MarkupError) return null;
+    throw error;
+  }
+};
+
+// True when the text uses any markup worth rendering; plain prose can skip the parser
+export const hasMathMarkup = (text: string) => /[\^√∛{*]|\d\/[\d{(]|\)\/|\}\/| \/ /.test(text);
@@ -0,0 +1,752 @@
+import { DataSet, Question, QuestionType } from '../types';
+import { dataSetId, evaluateFormula, formatDiValue, substituteCells } from './dataInterpretation';
+import { QUESTION_TYPE_KEYS } from './topics';
+import { evaluate } from './expression';
+
+// Local, seedable question generators. Used when the AI source is unavailable
+// or when the student explicitly picks the offline question source.
+
+export type Rng = () => number;
+
+// mulberry32 - small, fast and good enough for shuffling drill content
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randInt = (rng: Rng, min: number, max: number) =>
+  Math.floor(rng() * (max - min + 1)) + min;
+
+export const pick = <T,>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)];
+
+// Like randInt, but the upper bound grows with the difficulty level (1-5)
+const sized = (rng: Rng, level: number, min: number, max: number) =>
+  randInt(rng, min, Math.max(min, Math.round(min + (max - min) * (0.5 + level * 0.125))));
+
+export const shuffle = <T,>(rng: Rng, items: readonly T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const QUADRATIC_OPTIONS = ['x > y', 'x >= y', 'x < y', 'x <= y', 'x = y or no relation'];
+
+type Draft = Omit<Question, 'id' | 'type'>;
+
+// Builds 5 options around a numeric answer using the given offsets, keeping them unique and positive
+const numericOptions = (rng: Rng, answer: number, step: number): string[] => {
+  const values = new Set<number>([answer]);
+  const offsets = shuffle(rng, [-3, -2, -1, 1, 2, 3, 4]);
+  for (const k of offsets) {
+    if (values.size === 5) break;
+    const candidate = answer + k * step;
+    if (candidate > 0 || answer <= 0) values.add(candidate);
+  }
+  for (let k = 5; values.size < 5; k++) values.add(answer + k * step);
+  return shuffle(rng, [...values]).map(String);
+};
+
+// ---------- Simplification ----------
+
+const PYTHAGOREAN_TRIPLES = [[3, 4, 5], [5, 12, 13], [8, 15, 17], [7, 24, 25], [20, 21, 29]];
+
+const simplification = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 1 ? [0, 2] : level === 2 ? [0, 1, 2] : level === 3 ? [0, 1, 2, 3] : [0, 1, 2, 3, 4]);
+  let text: string;
+  let answer: number;
+  let steps: string[];
+
+  if (template === 0) {
+    const a = sized(rng, level, 12, 48);
+    const b = sized(rng, level, 6, 19);
+    const d = sized(rng, level, 3, 12);
+    const k = sized(rng, level, 8, 30);
+    const c = d * k;
+    const e = randInt(rng, 10, 60);
+    answer = a * b + k - e;
+    text = `${a} × ${b} + ${c} ÷ ${d} - ${e} = ?`;
+    steps = [`${c} ÷ ${d} = ${k}`, `${a} × ${b} = ${a * b}`, `${a * b} + ${k} - ${e} = ${answer}`];
+  } else if (template === 1) {
+    const p = 5 * randInt(rng, 2, 15);
+    const q = 20 * sized(rng, level, 3, 30);
+    const r = sized(rng, level, 11, 29);
+    const d = randInt(rng, 15, 120);
+    const pct = (p * q) / 100;
+    answer = pct + r * r - d;
+    text = `${p}% of ${q} + ${r}² - ${d} = ?`;
+    steps = [`${p}% of ${q} = ${pct}`, `${r}² = ${r * r}`, `${pct} + ${r * r} - ${d} = ${answer}`];
+  } else if (template === 2) {
+    const a = sized(rng, level, 15, 75);
+    const b = sized(rng, level, 10, 60);
+    const c = sized(rng, level, 3, 9);
+    const e = randInt(rng, 4, 15);
+    const k = randInt(rng, 5, 20);
+    const d = e * k;
+    answer = (a + b) * c - k;
+    text = `(${a} + ${b}) × ${c} - ${d} ÷ ${e} = ?`;
+    steps = [`Brackets: ${a} + ${b} = ${a + b}`, `${d} ÷ ${e} = ${k}`, `${a + b} × ${c} - ${k} = ${answer}`];
+  } else if (template === 3) {
+    const s = sized(rng, level, 12, 35);
+    const a = sized(rng, level, 3, 14);
+    const b = randInt(rng, 4, Math.floor(Math.sqrt(s * a)));
+    const c = randInt(rng, 20, 150);
+    answer = s * a - b * b + c;
+    text = `√${s * s} × ${a} - ${b}² + ${c} = ?`;
+    steps = [`√${s * s} = ${s}`, `${s} × ${a} = ${s * a}`, `${b}² = ${b * b}`, `${s * a} - ${b * b} + ${c} = ${answer}`];
+  } else {
+    // A fraction of a number plus the hypotenuse of a Pythagorean triple
+    const scale = randInt(rng, 1, 3);
+    const [x, y, z] = pick(rng, PYTHAGOREAN_TRIPLES).map(v => v * scale);
+    const [k, n] = pick(rng, [[1, 4], [3, 4], [2, 5], [3, 8], [5, 8], [4, 7], [5, 9]]);
+    const m = randInt(rng, 6, 25);
+    const c = randInt(rng, 3, 12);
+    answer = k * m + z * c;
+    text = `${k}/${n} of ${n * m} + √{${x}² + ${y}²} × ${c} = ?`;
+    steps = [`${k}/${n} of ${n * m} = ${k * m}`, `√{${x * x} + ${y * y}} = √${z * z} = ${z}`, `${k * m} + ${z} × ${c} = ${answer}`];
+  }
+
+  return {
+    questionText: text,
+    correctAnswer: String(answer),
+    explanation: `BODMAS: ${steps.join('; ')}.`,
+    options: numericOptions(rng, answer, pick(rng, [1, 2, 5, 10]))
+  };
+};
+
+// ---------- Number Series ----------
+
+const SERIES_PATTERNS_BY_LEVEL: Record<number, number[]> = {
+  1: [0, 2],
+  2: [0, 1, 2],
+  3: [0, 1, 2, 3, 4],
+  4: [1, 3, 4, 5],
+  5: [1, 3, 4, 5]
+};
+
+const series = (rng: Rng, level: number): Draft => {
+  const length = randInt(rng, 6, 7);
+  const pattern = pick(rng, SERIES_PATTERNS_BY_LEVEL[level] ?? SERIES_PATTERNS_BY_LEVEL[3]);
+  const terms: number[] = [];
+  let rule: string;
+
+  if (pattern === 0) {
+    const start = sized(rng, level, 5, 60);
+    const d = sized(rng, level, 7, 29);
+    for (let i = 0; i < length; i++) terms.push(start + i * d);
+    rule = `Each term increases by ${d}.`;
+  } else if (pattern === 1) {
+    const start = randInt(rng, 3, 40);
+    const firstDiff = randInt(rng, 2, 9);
+    const step = randInt(rng, 2, 6);
+    terms.push(start);
+    for (let i = 1; i < length; i++) terms.push(terms[i - 1] + firstDiff + (i - 1) * step);
+    rule = `Differences increase by ${step}: ${firstDiff}, ${firstDiff + step}, ${firstDiff + 2 * step}, ...`;
+  } else if (pattern === 2) {
+    const start = randInt(rng, 2, 9);
+    const r = randInt(rng, 2, 3);
+    for (let i = 0; i < length; i++) terms.push(start * r ** i);
+    rule = `Each term is multiplied by ${r}.`;
+  } else if (pattern === 3) {
+    const start = randInt(rng, 2, 12);
+    const m = 2;
+    // add = -start keeps every term equal to start: a series with nothing to find
+    const add = pick(rng, [-3, -2, -1, 1, 2, 3].filter(a => start + a !== 0));
+    terms.push(start);
+    for (let i = 1; i < length; i++) terms.push(terms[i - 1] * m + add);
+    rule = `Each term is ×${m} ${add > 0 ? '+' : '-'} ${Math.abs(add)}.`;
+  } else if (pattern === 4) {
+    const base = sized(rng, level, 3, 12);
+    const k = pick(rng, [-2, -1, 1, 2, 3]);
+    for (let i = 0; i < length; i++) terms.push((base + i) ** 2 + k);
+    rule = `Terms are n² ${k > 0 ? '+' : '-'} ${Math.abs(k)} for n = ${base}, ${base + 1}, ...`;
+  } else {
+    const start = randInt(rng, 1, 6);
+    terms.push(start);
+    for (let i = 1; i < length; i++) terms.push(terms[i - 1] * i + i);
+    rule = 'Each term is ×n + n for n = 1, 2, 3, ...';
+  }
+
+  const missing = randInt(rng, 1, length - 1);
+  const answer = terms[missing];
+  const shown = terms.map((t, i) => (i === missing ? '?' : String(t)));
+  const step = Math.max(1, Math.round(Math.abs(answer) * 0.05));
+
+  return {
+    questionText: `Find the missing term: ${shown.join(', ')}`,
+    correctAnswer: String(answer),
+    explanation: `${rule} Missing term = ${answer}.`,
+    options: numericOptions(rng, answer, step)
+  };
+};
+
+// ---------- Quadratic ----------
+
+interface Root { num: number; den: number; }
+
+const rootValue = (r: Root) => r.num / r.den;
+
+const formatRoot = (r: Root) => (r.den === 1 ? String(r.num) : `${r.num}/${r.den}`);
+
+const formatTerm = (coef: number, variable: string, first: boolean) => {
+  if (coef === 0) return '';
+  const sign = coef < 0 ? '-' : '+';
+  const abs = Math.abs(coef);
+  const body = variable && abs === 1 ? variable : `${abs}${variable}`;
+  if (first) return `${coef < 0 ? '-' : ''}${body}`;
+  return ` ${sign} ${body}`;
+};
+
+// (den1·v - num1)(den2·v - num2) = 0
+const formatEquation = (v: string, r1: Root, r2: Root) => {
+  const a = r1.den * r2.den;
+  const b = -(r1.den * r2.num + r2.den * r1.num);
+  const c = r1.num * r2.num;
+  return `${formatTerm(a, `${v}²`, true)}${formatTerm(b, v, false)}${formatTerm(c, '', false)} = 0`;
+};
+
+export const compareRoots = (xs: number[], ys: number[]): string => {
+  const eps = 1e-9;
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  if (Math.abs(minX - maxX) < eps && Math.abs(minY - maxY) < eps && Math.abs(minX - minY) < eps) {
+    return 'x = y or no relation';
+  }
+  if (minX > maxY + eps) return 'x > y';
+  if (minX >= maxY - eps) return 'x >= y';
+  if (maxX < minY - eps) return 'x < y';
+  if (maxX <= minY + eps) return 'x <= y';
+  return 'x = y or no relation';
+};
+
+const randomRoot = (rng: Rng, level: number): Root => {
+  const sign = rng() < 0.6 ? -1 : 1;
+  // Fractional roots only from level 3 up
+  if (rng() < (level - 2) * 0.2) {
+    const den = pick(rng, [2, 3]);
+    let num = randInt(rng, 1, 9);
+    if (num % den === 0) num += 1;
+    return { num: sign * num, den };
+  }
+  return { num: sign * sized(rng, level, 1, 12), den: 1 };
+};
+
+const quadratic = (rng: Rng, level: number): Draft => {
+  const xRoots = [randomRoot(rng, level), randomRoot(rng, level)];
+  const xs = xRoots.map(rootValue);
+  // Fully random roots almost always overlap, so steer y above or below x most of the time
+  const side = pick(rng, ['above', 'below', 'any'] as const);
+  const fits = (r: Root) =>
+    side === 'any' ||
+    (side === 'above' ? rootValue(r) > Math.max(...xs) : rootValue(r) < Math.min(...xs));
+  const nextY = () => {
+    let r = randomRoot(rng, level);
+    for (let tries = 0; tries < 20 && !fits(r); tries++) r = randomRoot(rng, level);
+    return r;
+  };
+  const yRoots = [nextY(), nextY()];
+  // Occasionally share a root so the >= / <= relations actually come up
+  if (rng() < 0.25) yRoots[0] = { ...xRoots[rng() < 0.5 ? 0 : 1] };
+
+  const answer = compareRoots(xs, yRoots.map(rootValue));
+  const text = `I. ${formatEquation('x', xRoots[0], xRoots[1])}\nII. ${formatEquation('y', yRoots[0], yRoots[1])}`;
+
+  return {
+    questionText: text,
+    correctAnswer: answer,
+    explanation: `x = ${xRoots.map(formatRoot).join(', ')}; y = ${yRoots.map(formatRoot).join(', ')}. Comparing every pair gives ${answer}.`,
+    options: [...QUADRATIC_OPTIONS]
+  };
+};
+
+// ---------- Approximation ----------
+
+const fuzz = (rng: Rng, value: number) => {
+  const delta = pick(rng, [-0.03, -0.02, -0.01, 0.01, 0.02, 0.03]);
+  return (value + delta).toFixed(2);
+};
+
+const approximation = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 1 ? [0] : level === 2 ? [0, 2] : [0, 1, 2]);
+  let text: string;
+  let answer: number;
+  let steps: string;
+
+  if (template === 0) {
+    const p = 5 * randInt(rng, 2, 12);
+    const q = 20 * sized(rng, level, 5, 40);
+    const r = sized(rng, level, 6, 25);
+    const s = sized(rng, level, 4, 18);
+    answer = (p * q) / 100 + r * s;
+    text = `${fuzz(rng, p)}% of ${fuzz(rng, q)} + ${fuzz(rng, r)} × ${fuzz(rng, s)} ≈ ?`;
+    steps = `≈ ${p}% of ${q} + ${r} × ${s} = ${(p * q) / 100} + ${r * s} = ${answer}`;
+  } else if (template === 1) {
+    const n = sized(rng, level, 11, 40);
+    const a = sized(rng, level, 8, 30);
+    const b = sized(rng, level, 5, 20);
+    const c = randInt(rng, 10, 90);
+    answer = n + a * b - c;
+    text = `√${fuzz(rng, n * n)} + ${fuzz(rng, a)} × ${fuzz(rng, b)} - ${fuzz(rng, c)} ≈ ?`;
+    steps = `≈ √${n * n} + ${a} × ${b} - ${c} = ${n} + ${a * b} - ${c} = ${answer}`;
+  } else {
+    const b = sized(rng, level, 6, 25);
+    const k = sized(rng, level, 6, 30);
+    const c = sized(rng, level, 3, 15);
+    const d = randInt(rng, 20, 200);
+    answer = k * c + d;
+    text = `${fuzz(rng, b * k)} ÷ ${fuzz(rng, b)} × ${fuzz(rng, c)} + ${fuzz(rng, d)} ≈ ?`;
+    steps = `≈ ${b * k} ÷ ${b} × ${c} + ${d} = ${k} × ${c} + ${d} = ${answer}`;
+  }
+
+  // Approximation options must be far enough apart that rounding decides the answer
+  const step = Math.max(5, Math.round(answer * 0.08 / 5) * 5);
+  return {
+    questionText: text,
+    correctAnswer: String(answer),
+    explanation: `Round each value to the nearest convenient number: ${steps}.`,
+    options: numericOptions(rng, answer, step)
+  };
+};
+
+// ---------- Data Interpretation ----------
+
+export const DI_SET_SIZE = 5;
+
+const DI_YEARS = ['2019', '2020', '2021', '2022', '2023'];
+
+const DI_THEMES = [
+  { title: 'Cars sold by three dealers', unit: 'cars', series: ['Dealer P', 'Dealer Q', 'Dealer R'] },
+  { title: 'Revenue of two companies', unit: '₹ crore', series: ['Company A', 'Company B'] },
+  { title: 'Students enrolled in three institutes', unit: 'students', series: ['Institute X', 'Institute Y', 'Institute Z'] },
+  { title: 'Laptops produced by two factories', unit: 'laptops (hundreds)', series: ['Factory M', 'Factory N'] }
+];
+
+const PIE_THEMES = [
+  { title: 'Monthly expenditure of a family', unit: '₹ hundred', series: 'Expenditure', categories: ['Food', 'Rent', 'Education', 'Transport', 'Savings'] },
+  { title: 'Employees by department', unit: 'employees', series: 'Employees', categories: ['HR', 'Sales', 'IT', 'Finance', 'Operations'] },
+  { title: 'Votes polled by five candidates', unit: 'votes (thousands)', series: 'Votes', categories: ['A', 'B', 'C', 'D', 'E'] }
+];
+
+type DiTemplate = (rng: Rng, data: DataSet) => { questionText: string; formula: string };
+
+const cell = (series: string, category: string) => `{${series}|${category}}`;
+
+const twoDistinct = <T,>(rng: Rng, items: readonly T[]): [T, T] => {
+  const [a, b] = shuffle(rng, items);
+  return [a, b];
+};
+
+// Orders two cells so the difference comes out positive
+const larger = (data: DataSet, a: [string, string], b: [string, string]): [[string, string], [string, string]] => {
+  const value = ([s, c]: [string, string]) => data.series.find(x => x.name === s)!.values[data.categories.indexOf(c)];
+  return value(a) >= value(b) ? [a, b] : [b, a];
+};
+
+const SERIES_TEMPLATES: DiTemplate[] = [
+  (rng, data) => {
+    const s = pick(rng, data.series).name;
+    return {
+      questionText: `What is ${s}'s total over all five years (in ${data.unit})?`,
+      formula: data.categories.map(c => cell(s, c)).join(' + ')
+    };
+  },
+  (rng, data) => {
+    const s = pick(rng, data.series).name;
+    return {
+      questionText: `What is ${s}'s average per year (in ${data.unit})?`,
+      formula: `(${data.categories.map(c => cell(s, c)).join(' + ')}) ÷ ${data.categories.length}`
+    };
+  },
+  (rng, data) => {
+    const s = pick(rng, data.series).name;
+    const [from, to] = twoDistinct(rng, data.categories).sort();
+    return {
+      questionText: `What is the percentage change in ${s}'s figure from ${from} to ${to}?`,
+      formula: `(${cell(s, to)} - ${cell(s, from)}) ÷ ${cell(s, from)} × 100`
+    };
+  },
+  (rng, data) => {
+    const [a, b] = twoDistinct(rng, data.series.map(s => s.name));
+    const c = pick(rng, data.categories);
+    return {
+      questionText: `In ${c}, ${a}'s figure is what percent of ${b}'s?`,
+      formula: `${cell(a, c)} ÷ ${cell(b, c)} × 100`
+    };
+  },
+  (rng, data) => {
+    const [a, b] = twoDistinct(rng, data.series.map(s => s.name));
+    const [ca, cb] = twoDistinct(rng, data.categories);
+    const [first, second] = larger(data, [a, ca], [b, cb]);
+    return {
+      questionText: `What is the difference between ${first[0]}'s figure in ${first[1]} and ${second[0]}'s figure in ${second[1]}?`,
+      formula: `${cell(...first)} - ${cell(...second)}`
+    };
+  }
+];
+
+const pieTotal = (data: DataSet) => `(${data.categories.map(c => cell(data.series[0].name, c)).join(' + ')})`;
+
+const PIE_TEMPLATES: DiTemplate[] = [
+  (rng, data) => {
+    const c = pick(rng, data.categories);
+    return {
+      questionText: `What percentage of the total does ${c} account for?`,
+      formula: `${cell(data.series[0].name, c)} ÷ ${pieTotal(data)} × 100`
+    };
+  },
+  (rng, data) => {
+    const c = pick(rng, data.categories);
+    return {
+      questionText: `What is the central angle (in degrees) of the ${c} sector?`,
+      formula: `${cell(data.series[0].name, c)} ÷ ${pieTotal(data)} × 360`
+    };
+  },
+  (rng, data) => {
+    const s = data.series[0].name;
+    const [c1, c2] = twoDistinct(rng, data.categories);
+    const [big, small] = larger(data, [s, c1], [s, c2]);
+    return {
+      questionText: `By how much does ${big[1]} exceed ${small[1]} (in ${data.unit})?`,
+      formula: `${cell(...big)} - ${cell(...small)}`
+    };
+  },
+  (rng, data) => {
+    const [c1, c2] = twoDistinct(rng, data.categories);
+    return {
+      questionText: `${c1} is what percent of ${c2}?`,
+      formula: `${cell(data.series[0].name, c1)} ÷ ${cell(data.series[0].name, c2)} × 100`
+    };
+  },
+  (rng, data) => {
+    const [c1, c2] = twoDistinct(rng, data.categories);
+    return {
+      questionText: `What is the combined figure for ${c1} and ${c2} (in ${data.unit})?`,
+      formula: `${cell(data.series[0].name, c1)} + ${cell(data.series[0].name, c2)}`
+    };
+  }
+];
+
+// Five wrong-but-plausible neighbours spaced about 6% of the answer apart
+const nearOptions = (rng: Rng, answer: number): string[] => {
+  const magnitude = Math.max(1, Math.abs(answer));
+  const step = Number.isInteger(answer) ? Math.max(1, Math.round(magnitude * 0.06)) : Math.max(0.5, Number((magnitude * 0.06).toFixed(2)));
+  const values = new Set<string>([formatDiValue(answer)]);
+  for (const k of shuffle(rng, [-3, -2, -1, 1, 2, 3, 4])) {
+    if (values.size === 5) break;
+    values.add(formatDiValue(answer + k * step));
+  }
+  return shuffle(rng, [...values]);
+};
+
+const dataInterpretationSet = (rng: Rng, level: number): Draft[] => {
+  const kind = pick(rng, ['table', 'bar', 'line', 'pie'] as const);
+  // Coarser steps keep the arithmetic friendly at the easy end
+  const step = level <= 2 ? 10 : 5;
+  const value = () => step * sized(rng, level, Math.round(50 / step), Math.round(400 / step));
+
+  let data: DataSet;
+  if (kind === 'pie') {
+    const theme = pick(rng, PIE_THEMES);
+    const values = theme.categories.map(value);
+    data = { id: '', kind, title: theme.title, unit: theme.unit, categories: theme.categories, series: [{ name: theme.series, values }] };
+  } else {
+    const theme = pick(rng, DI_THEMES);
+    const series = theme.series.map(name => ({ name, values: DI_YEARS.map(value) }));
+    data = { id: '', kind, title: theme.title, unit: theme.unit, categories: DI_YEARS, series };
+  }
+  data.id = dataSetId(data);
+
+  const templates = shuffle(rng, kind === 'pie' ? PIE_TEMPLATES : SERIES_TEMPLATES).slice(0, DI_SET_SIZE);
+  return templates.map(template => {
+    const { questionText, formula } = template(rng, data);
+    const answer = Number(evaluateFormula(formula, data)!.toFixed(2));
+    return {
+      questionText,
+      correctAnswer: formatDiValue(answer),
+      explanation: `${substituteCells(formula, data)} = ${formatDiValue(answer)}`,
+      options: nearOptions(rng, answer),
+      dataSet: data,
+      formula
+    };
+  });
+};
+
+// ---------- Arithmetic word problems ----------
+
+// The formula is the worked solution; its numbers all come from the question text
+interface WordProblem {
+  questionText: string;
+  formula: string;
+  rule: string;
+}
+
+const wordProblem = (rng: Rng, { questionText, formula, rule }: WordProblem): Draft => {
+  const answer = Number(evaluate(formula).toFixed(2));
+  return {
+    questionText,
+    correctAnswer: formatDiValue(answer),
+    explanation: `${rule}: ${formula} = ${formatDiValue(answer)}.`,
+    options: nearOptions(rng, answer),
+    formula
+  };
+};
+
+const COPRIME_PAIRS: [number, number][] = [[1, 2], [1, 3], [2, 3], [3, 4], [2, 5], [3, 5], [4, 5], [5, 7]];
+
+const percentage = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 2 ? [0, 1, 2] : [0, 1, 2, 3]);
+  if (template === 0) {
+    const p = level >= 4 ? pick(rng, [12.5, 16, 24, 37.5, 45, 62.5]) : 5 * randInt(rng, 1, 12);
+    const n = 40 * sized(rng, level, 2, 25);
+    return wordProblem(rng, { questionText: `What is ${p}% of ${n}?`, formula: `${p} ÷ 100 × ${n}`, rule: 'p% of n = p ÷ 100 × n' });
+  }
+  if (template === 1) {
+    const p = 5 * randInt(rng, 1, 10);
+    const n = 20 * sized(rng, level, 5, 60);
+    const m = (n * (100 + p)) / 100;
+    return wordProblem(rng, {
+      questionText: `After a ${p}% raise, a salary is ₹${m}. What was the salary before the raise (₹)?`,
+      formula: `${m} × 100 ÷ (100 + ${p})`,
+      rule: 'Original = new × 100 ÷ (100 + increase%)'
+    });
+  }
+  if (template === 2) {
+    const b = 20 * sized(rng, level, 2, 40);
+    const p = 5 * randInt(rng, 1, 19);
+    const a = (b * p) / 100;
+    return wordProblem(rng, { questionText: `${a} is what percent of ${b}?`, formula: `${a} ÷ ${b} × 100`, rule: 'Percent = part ÷ whole × 100' });
+  }
+  const n = 400 * sized(rng, level, 5, 50);
+  const p = 5 * randInt(rng, 1, 6);
+  const q = 5 * randInt(rng, 1, 4);
+  return wordProblem(rng, {
+    questionText: `The population of a town is ${n}. It rises by ${p}% in the first year and falls by ${q}% in the second. What is the population after two years?`,
+    formula: `${n} × (100 + ${p}) ÷ 100 × (100 - ${q}) ÷ 100`,
+    rule: 'Successive changes multiply'
+  });
+};
+
+const profitLoss = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 2 ? [0, 1, 3] : [0, 1, 2, 3]);
+  if (template === 0) {
+    const cp = 20 * sized(rng, level, 5, 60);
+    const p = 5 * randInt(rng, 1, 8);
+    return wordProblem(rng, {
+      questionText: `An article bought for ₹${cp} is sold at a profit of ${p}%. What is its selling price (₹)?`,
+      formula: `${cp} × (100 + ${p}) ÷ 100`,
+      rule: 'SP = CP × (100 + profit%) ÷ 100'
+    });
+  }
+  if (template === 1) {
+    const cp = 20 * sized(rng, level, 5, 60);
+    const p = 5 * randInt(rng, 1, 6);
+    const sp = (cp * (100 - p)) / 100;
+    return wordProblem(rng, {
+      questionText: `A shopkeeper sells an item for ₹${sp} at a loss of ${p}%. What was its cost price (₹)?`,
+      formula: `${sp} × 100 ÷ (100 - ${p})`,
+      rule: 'CP = SP × 100 ÷ (100 - loss%)'
+    });
+  }
+  if (template === 2) {
+    // A cost price in multiples of 240 keeps both the selling and the marked price whole
+    const cp = 240 * sized(rng, level, 1, 8);
+    const p = pick(rng, [10, 20, 25, 50]);
+    const d = pick(rng, [20, 25, 50]);
+    const mp = (cp * (100 + p)) / (100 - d);
+    return wordProblem(rng, {
+      questionText: `An item marked at ₹${mp} is sold at a ${d}% discount and still makes a ${p}% profit. What is its cost price (₹)?`,
+      formula: `${mp} × (100 - ${d}) ÷ 100 × 100 ÷ (100 + ${p})`,
+      rule: 'SP = MP × (100 - discount%) ÷ 100, then CP = SP × 100 ÷ (100 + profit%)'
+    });
+  }
+  const cp = 20 * sized(rng, level, 5, 60);
+  const p = 5 * randInt(rng, 1, 10);
+  const gain = (cp * p) / 100;
+  return wordProblem(rng, {
+    questionText: `By selling an article for ₹${cp + gain}, a trader gains ₹${gain}. What is the profit percentage?`,
+    formula: `${gain} ÷ (${cp + gain} - ${gain}) × 100`,
+    rule: 'Profit% = profit ÷ CP × 100'
+  });
+};
+
+const interest = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 1 ? [0, 2] : level === 2 ? [0, 1, 2] : [0, 1, 2, 3]);
+  if (template === 0) {
+    const p = 500 * sized(rng, level, 2, 40);
+    const r = randInt(rng, 4, 15);
+    const t = randInt(rng, 2, 6);
+    return wordProblem(rng, {
+      questionText: `What is the simple interest on ₹${p} at ${r}% per annum for ${t} years (₹)?`,
+      formula: `${p} × ${r} × ${t} ÷ 100`,
+      rule: 'SI = P × R × T ÷ 100'
+    });
+  }
+  if (template === 1) {
+    const years = level >= 4 && rng() < 0.5 ? 3 : 2;
+    // Principals that cancel the denominator of (1 + r/100)^n
+    const r = years === 3 ? pick(rng, [10, 20]) : pick(rng, [5, 10, 15, 20]);
+    const p = (years === 3 ? 1000 : 2000) * sized(rng, level, 1, 20);
+    return wordProblem(rng, {
+      questionText: `What is the compound interest on ₹${p} at ${r}% per annum for ${years} years, compounded annually (₹)?`,
+      formula: `${p} × (1 + ${r} ÷ 100)^${years} - ${p}`,
+      rule: 'CI = P × (1 + {R}/{100})^n - P'
+    });
+  }
+  if (template === 2) {
+    const p = 100 * sized(rng, level, 5, 100);
+    const r = randInt(rng, 3, 12);
+    const t = randInt(rng, 2, 5);
+    const amount = (p * (100 + r * t)) / 100;
+    return wordProblem(rng, {
+      questionText: `A sum of money amounts to ₹${amount} in ${t} years at ${r}% per annum simple interest. What is the sum (₹)?`,
+      formula: `${amount} × 100 ÷ (100 + ${r} × ${t})`,
+      rule: 'P = A × 100 ÷ (100 + R × T)'
+    });
+  }
+  const p = 2000 * sized(rng, level, 1, 25);
+  const r = pick(rng, [5, 10, 15, 20]);
+  return wordProblem(rng, {
+    questionText: `What is the difference between the compound and simple interest on ₹${p} at ${r}% per annum for 2 years (₹)?`,
+    formula: `${p} × (${r} ÷ 100)^2`,
+    rule: 'For 2 years, CI - SI = P × ({R}/{100})²'
+  });
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const timeWork = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 2 ? [0, 1, 2] : [0, 1, 2, 3]);
+  if (template === 0 || template === 1) {
+    // Times built from a pair p:q so the combined time comes out whole
+    const [p, q] = pick(rng, [[1, 1], ...COPRIME_PAIRS]);
+    const s = sized(rng, level, 1, 4);
+    const together = p * q * s;
+    const a = q * s * (p + q);
+    const b = p * s * (p + q);
+    return template === 0
+      ? wordProblem(rng, {
+          questionText: `A can finish a piece of work in ${a} days and B in ${b} days. Working together, in how many days will they finish it?`,
+          formula: `${a} × ${b} ÷ (${a} + ${b})`,
+          rule: 'Together = A × B ÷ (A + B)'
+        })
+      : wordProblem(rng, {
+          questionText: `A and B together finish a piece of work in ${together} days. A alone takes ${a} days. How many days would B take alone?`,
+          formula: `${a} × ${together} ÷ (${a} - ${together})`,
+          rule: 'B = A × T ÷ (A - T)'
+        });
+  }
+  if (template === 2) {
+    const m = sized(rng, level, 4, 30);
+    const other = sized(rng, level, 4, 30);
+    const n = other === m ? m + 1 : other;
+    // Days a multiple of n ÷ gcd(m, n), so m × d splits evenly between n men
+    const d = (n / gcd(m, n)) * randInt(rng, 1, 3);
+    return wordProblem(rng, {
+      questionText: `${m} men can complete a job in ${d} days. How many days would ${n} men take to complete the same job?`,
+      formula: `${m} × ${d} ÷ ${n}`,
+      rule: 'Man-days are constant: M₁ × D₁ = M₂ × D₂'
+    });
+  }
+  const [p, q] = pick(rng, COPRIME_PAIRS);
+  const s = sized(rng, level, 1, 4);
+  const fill = s * p * (q - p);
+  const empty = s * q * (q - p);
+  return wordProblem(rng, {
+    questionText: `Pipe A fills a tank in ${fill} hours and pipe B empties it in ${empty} hours. If both are opened together, how many hours will it take to fill the empty tank?`,
+    formula: `${fill} × ${empty} ÷ (${empty} - ${fill})`,
+    rule: 'Net time = A × B ÷ (B - A)'
+  });
+};
+
+const ratio = (rng: Rng, level: number): Draft => {
+  const template = pick(rng, level <= 2 ? [0, 2, 3] : [0, 1, 2, 3]);
+  if (template === 0) {
+    const [p, q] = shuffle(rng, pick(rng, COPRIME_PAIRS));
+    const total = (p + q) * 10 * sized(rng, level, 2, 30);
+    return wordProblem(rng, {
+      questionText: `₹${total} is divided between A and B in the ratio ${p}:${q}. What is B's share (₹)?`,
+      formula: `${total} × ${q} ÷ (${p} + ${q})`,
+      rule: "B's share = total × B's part ÷ sum of parts"
+    });
+  }
+  if (template === 1) {
+    const [p, q] = pick(rng, COPRIME_PAIRS);
+    const x = sized(rng, level, 2, 15);
+    const k = randInt(rng, 2, 20);
+    const g = gcd(p * x + k, q * x + k);
+    const r = (p * x + k) / g;
+    const s = (q * x + k) / g;
+    return wordProblem(rng, {
+      questionText: `Two numbers are in the ratio ${p}:${q}. If ${k} is added to each, the ratio becomes ${r}:${s}. What is the smaller number?`,
+      formula: `${p} × ${k} × (${r} - ${s}) ÷ (${s} × ${p} - ${r} × ${q})`,
+      rule: 'With the numbers px and qx, (px + k) ÷ (qx + k) = r ÷ s gives x'
+    });
+  }
+  if (template === 2) {
+    const [a, b] = shuffle(rng, pick(rng, COPRIME_PAIRS));
+    const [c, d] = shuffle(rng, pick(rng, COPRIME_PAIRS));
+    const parts = a * c + b * c + b * d;
+    const total = parts * 10 * sized(rng, level, 1, 20);
+    return wordProblem(rng, {
+      questionText: `A:B = ${a}:${b} and B:C = ${c}:${d}. If A, B and C share ₹${total} in this proportion, what is C's share (₹)?`,
+      formula: `${total} × ${b} × ${d} ÷ (${a} × ${c} + ${b} × ${c} + ${b} × ${d})`,
+      rule: 'A:B:C = ac : bc : bd'
+    });
+  }
+  const [p, q] = pick(rng, COPRIME_PAIRS);
+  const target = q + randInt(rng, 1, 3);
+  const volume = (p + q) * p * sized(rng, level, 1, 8);
+  return wordProblem(rng, {
+    questionText: `A ${volume}-litre mixture has milk and water in the ratio ${p}:${q}. How many litres of water must be added to make the ratio ${p}:${target}?`,
+    formula: `${volume} × ${p} ÷ (${p} + ${q}) × ${target} ÷ ${p} - ${volume} × ${q} ÷ (${p} + ${q})`,
+    rule: 'Milk stays fixed; water needed = milk × new water part ÷ milk part - current water'
+  });
+};
+
+const GENERATORS: Record<Exclude<Question['type'], 'di'>, (rng: Rng, level: number) => Draft> = {
+  simplification,
+  series,
+  quadratic,
+  approximation,
+  percentage,
+  'profit-loss': profitLoss,
+  interest,
+  'time-work': timeWork,
+  ratio
+};
+
+// DI questions come in sets of DI_SET_SIZE that share one dataset
+const dataInterpretationDrafts = (rng: Rng, level: number, count: number): Draft[] => {
+  const drafts: Draft[] = [];
+  while (drafts.length < count) drafts.push(...dataInterpretationSet(rng, level));
+  return drafts.slice(0, count);
+};
+
+export const generateOfflineQuestions = (
+  topic: QuestionType,
+  count: number = 5,
+  seed: number = Date.now(),
+  difficulty: number = 3
+): Question[] => {
+  const rng = createRng(seed);
+  const type = QUESTION_TYPE_KEYS[topic];
+  const drafts = type === 'di'
+    ? dataInterpretationDrafts(rng, difficulty, count)
+    : Array.from({ length: count }, () => GENERATORS[type](rng, difficulty));
+  return drafts.map((draft, i) => ({
+    id: `offline-${seed}-${i}`,
+    type,
+    ...draft,
+    difficulty,
+    verification: { status: 'generated' }
+  }));
+};
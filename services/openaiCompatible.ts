@@ -0,0 +1,80 @@
+import { CoachProvider, DrillSummary, QuestionProvider, QuestionType } from '../types';
+import { COACH_JSON_SHAPE, QUESTION_JSON_SHAPE, coachPrompt, questionPrompt } from './prompts';
+import { GenerationError, statusErrorKind, toGenerationError, toQuestions } from './generation';
+import { ruleBasedReport, toCoachReport } from './coach';
+
+// Any server speaking the OpenAI chat-completions protocol: OpenAI itself, or a
+// local Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1).
+
+export const OPENAI_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+export const OPENAI_DEFAULT_MODEL = 'llama3.1';
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+const SYSTEM_PROMPT = 'You are an expert IBPS quantitative aptitude tutor and question setter.';
+
+// Local models often wrap JSON in a markdown fence even when asked not to
+const stripFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const createOpenAICompatibleProvider = (
+  baseUrl: string = OPENAI_DEFAULT_BASE_URL,
+  model: string = OPENAI_DEFAULT_MODEL,
+  apiKey?: string
+): QuestionProvider & CoachProvider => {
+  const complete = async (messages: ChatMessage[]): Promise<string> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: 0.7,
+        response_format: { type: 'json_object' }
+      })
+    });
+    if (!response.ok) throw new GenerationError(statusErrorKind(response.status), `${response.status} ${response.statusText}`);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    id: 'openai',
+    label: model,
+
+    generateQuestions: async (topic: QuestionType, count: number, difficulty: number) => {
+      try {
+        const content = await complete(
+          [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: questionPrompt(topic, count, difficulty) + QUESTION_JSON_SHAPE }
+          ]
+        );
+        if (!content) throw new GenerationError('malformed', 'Empty response');
+        return toQuestions(JSON.parse(stripFence(content)), topic, difficulty);
+      } catch (error) {
+        throw toGenerationError(error);
+      }
+    },
+
+    analyzeDrill: async (summary: DrillSummary) => {
+      try {
+        const content = await complete(
+          [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: coachPrompt(summary) + COACH_JSON_SHAPE }
+          ]
+        );
+        return content ? toCoachReport(JSON.parse(stripFence(content)), summary) : ruleBasedReport(summary);
+      } catch (error) {
+        console.error('Failed to get drill analysis:', error);
+        return ruleBasedReport(summary);
+      }
+    }
+  };
+};
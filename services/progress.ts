@@ -0,0 +1,232 @@
+import { DrillDetail, DrillResult, MOCK_TOPIC, QuestionType } from '../types';
+import { AnsweredQuestion, answeredQuestions, dayKey } from './analytics';
+import { DEFAULT_DRILL_SETTINGS, resultTimeBudget } from './drillSettings';
+import { outcomeOf } from './scoring';
+import { TOPICS } from './topics';
+
+// XP, levels, practice streaks and achievements. Nothing here is stored: it is all
+// derived from the drill history, so an import or a deleted drill simply recomputes.
+
+const BASE_XP = 10;
+const ACCURACY_BONUS = 0.5; // A perfect drill earns half as much again
+const HEATMAP_WEEKS = 26;
+
+const ALL_TOPICS = TOPICS.map(t => t.topic);
+
+// Nothing for a miss; difficulty scales the base and speed adds up to half again.
+// An instant answer earns the full speed bonus, one at the time budget none of it.
+export const answerXp = (detail: DrillDetail, fallbackDifficulty: number = 3, timeBudget: number = DEFAULT_DRILL_SETTINGS.timeLimitSeconds): number => {
+  if (outcomeOf(detail) !== 'correct') return 0;
+  const difficulty = detail.difficulty ?? fallbackDifficulty;
+  const speed = Math.max(0, 1 - detail.timeSpent / timeBudget);
+  return Math.round(BASE_XP * (0.6 + 0.2 * difficulty) * (1 + 0.5 * speed));
+};
+
+const drillMultiplier = (result: DrillResult) => {
+  const correct = result.details.filter(d => outcomeOf(d) === 'correct').length;
+  return result.details.length > 0 ? 1 + ACCURACY_BONUS * (correct / result.details.length) : 1;
+};
+
+export const xpOf = (answer: AnsweredQuestion) =>
+  Math.round(answerXp(answer.detail, answer.result.difficulty, resultTimeBudget(answer.result)) * drillMultiplier(answer.result));
+
+// Each level costs 50 XP more than the one before
+export const xpForLevel = (level: number) => 100 + 50 * (level - 1);
+
+export interface LevelProgress {
+  level: number;
+  xp: number;
+  intoLevel: number;
+  forNextLevel: number;
+}
+
+export const levelFor = (xp: number): LevelProgress => {
+  let level = 1;
+  let floor = 0;
+  while (xp >= floor + xpForLevel(level)) {
+    floor += xpForLevel(level);
+    level++;
+  }
+  return { level, xp, intoLevel: xp - floor, forNextLevel: xpForLevel(level) };
+};
+
+// ---------- Streaks and heatmap ----------
+
+const fromDayKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const shiftDay = (key: string, days: number) => {
+  const date = fromDayKey(key);
+  date.setDate(date.getDate() + days);
+  return dayKey(date);
+};
+
+// Questions answered per local day
+export const practiceDays = (history: DrillResult[]): Map<string, number> => {
+  const days = new Map<string, number>();
+  for (const result of history) {
+    const day = dayKey(new Date(result.date));
+    days.set(day, (days.get(day) ?? 0) + result.details.length);
+  }
+  return days;
+};
+
+// Days in a row up to today; a streak survives until the end of the day after the last practice
+export const currentStreak = (days: Map<string, number>, now: Date = new Date()): number => {
+  let day = dayKey(now);
+  if (!days.has(day)) day = shiftDay(day, -1);
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day = shiftDay(day, -1);
+  }
+  return streak;
+};
+
+export const longestStreak = (days: Map<string, number>): number => {
+  let longest = 0;
+  for (const day of days.keys()) {
+    if (days.has(shiftDay(day, -1))) continue; // Only count from the first day of each run
+    let length = 1;
+    while (days.has(shiftDay(day, length))) length++;
+    longest = Math.max(longest, length);
+  }
+  return longest;
+};
+
+export interface HeatmapCell {
+  day: string;
+  count: number;
+}
+
+// Week columns (Monday first) ending with the current week; days after today are null
+export const heatmap = (days: Map<string, number>, weeks: number = HEATMAP_WEEKS, now: Date = new Date()): (HeatmapCell | null)[][] => {
+  const today = dayKey(now);
+  const monday = shiftDay(today, -((now.getDay() + 6) % 7));
+  const start = shiftDay(monday, -7 * (weeks - 1));
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const day = shiftDay(start, w * 7 + d);
+      return day > today ? null : { day, count: days.get(day) ?? 0 };
+    })
+  );
+};
+
+// ---------- Achievements ----------
+
+interface AchievementContext {
+  history: DrillResult[];
+  answers: AnsweredQuestion[];
+  days: Map<string, number>;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  target: number;
+  // Must never decrease as history grows, so the unlock date can be found by bisection
+  measure: (context: AchievementContext) => number;
+}
+
+const correctAnswers = (answers: AnsweredQuestion[]) => answers.filter(a => outcomeOf(a.detail) === 'correct');
+
+const fastCorrect = (topic: QuestionType, seconds: number) => (c: AchievementContext) =>
+  correctAnswers(c.answers).filter(a => a.topic === topic && a.detail.timeSpent < seconds).length;
+
+const topicLevels = (answers: AnsweredQuestion[]) => {
+  const xp = new Map<QuestionType, number>();
+  for (const a of answers) xp.set(a.topic, (xp.get(a.topic) ?? 0) + xpOf(a));
+  return [...xp.values()].map(v => levelFor(v).level);
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-drill', title: 'First Steps', description: 'Finish your first drill', target: 1, measure: c => c.history.length },
+  {
+    id: 'flawless',
+    title: 'Flawless',
+    description: 'Answer every question of a 5+ question drill correctly',
+    target: 1,
+    measure: c => c.history.filter(r => r.details.length >= 5 && r.details.every(d => outcomeOf(d) === 'correct')).length
+  },
+  { id: 'century', title: 'Century', description: 'Answer 100 questions correctly', target: 100, measure: c => correctAnswers(c.answers).length },
+  { id: 'thousand', title: 'Thousand Club', description: 'Answer 1000 questions correctly', target: 1000, measure: c => correctAnswers(c.answers).length },
+  { id: 'root-racer', title: 'Root Racer', description: '10 quadratics correct in under 15s', target: 10, measure: fastCorrect(QuestionType.QUADRATIC, 15) },
+  { id: 'pattern-spotter', title: 'Pattern Spotter', description: '10 number series correct in under 10s', target: 10, measure: fastCorrect(QuestionType.SERIES, 10) },
+  { id: 'lightning-bodmas', title: 'Lightning BODMAS', description: '25 simplifications correct in under 10s', target: 25, measure: fastCorrect(QuestionType.SIMPLIFICATION, 10) },
+  {
+    id: 'mains-material',
+    title: 'Mains Material',
+    description: '20 correct answers at difficulty 5',
+    target: 20,
+    measure: c => correctAnswers(c.answers).filter(a => (a.detail.difficulty ?? a.result.difficulty) === 5).length
+  },
+  { id: 'all-rounder', title: 'All-Rounder', description: 'Practise every topic', target: ALL_TOPICS.length, measure: c => new Set(c.answers.map(a => a.topic)).size },
+  { id: 'exam-ready', title: 'Exam Ready', description: 'Submit a mock test', target: 1, measure: c => c.history.filter(r => r.topic === MOCK_TOPIC).length },
+  { id: 'week-streak', title: 'Week Warrior', description: 'Practise 7 days in a row', target: 7, measure: c => longestStreak(c.days) },
+  { id: 'month-streak', title: 'Habit Formed', description: 'Practise 30 days in a row', target: 30, measure: c => longestStreak(c.days) },
+  { id: 'specialist', title: 'Specialist', description: 'Reach level 5 in any topic', target: 5, measure: c => Math.max(0, ...topicLevels(c.answers)) }
+];
+
+export interface AchievementStatus {
+  achievement: Achievement;
+  progress: number; // Capped at the target
+  unlockedAt?: string; // Date of the drill that completed it
+}
+
+const contextFor = (history: DrillResult[]): AchievementContext => ({
+  history,
+  answers: answeredQuestions(history, { topics: ALL_TOPICS }),
+  days: practiceDays(history)
+});
+
+export const achievementStatuses = (history: DrillResult[]): AchievementStatus[] => {
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const contexts = new Map<number, AchievementContext>();
+  const prefix = (length: number) => {
+    if (!contexts.has(length)) contexts.set(length, contextFor(sorted.slice(0, length)));
+    return contexts.get(length)!;
+  };
+
+  return ACHIEVEMENTS.map(achievement => {
+    const progress = Math.min(achievement.target, achievement.measure(prefix(sorted.length)));
+    if (progress < achievement.target) return { achievement, progress };
+    // Smallest prefix of the history that already meets the target
+    let lo = 1;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (achievement.measure(prefix(mid)) >= achievement.target) hi = mid;
+      else lo = mid + 1;
+    }
+    return { achievement, progress, unlockedAt: sorted[lo - 1].date };
+  });
+};
+
+// ---------- Everything the Dashboard shows ----------
+
+export interface ProgressSummary {
+  total: LevelProgress;
+  topics: Record<QuestionType, LevelProgress>;
+  currentStreak: number;
+  longestStreak: number;
+  heatmap: (HeatmapCell | null)[][];
+  achievements: AchievementStatus[];
+}
+
+export const computeProgress = (history: DrillResult[], now: Date = new Date()): ProgressSummary => {
+  const { answers, days } = contextFor(history);
+  const topicXp = new Map<QuestionType, number>(ALL_TOPICS.map(t => [t, 0]));
+  for (const a of answers) topicXp.set(a.topic, topicXp.get(a.topic)! + xpOf(a));
+  const totalXp = [...topicXp.values()].reduce((sum, xp) => sum + xp, 0);
+  return {
+    total: levelFor(totalXp),
+    topics: Object.fromEntries([...topicXp].map(([topic, xp]) => [topic, levelFor(xp)])) as Record<QuestionType, LevelProgress>,
+    currentStreak: currentStreak(days, now),
+    longestStreak: longestStreak(days),
+    heatmap: heatmap(days, HEATMAP_WEEKS, now),
+    achievements: achievementStatuses(history)
+  };
+};
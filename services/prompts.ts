@@ -0,0 +1,59 @@
+import { DrillSummary, QuestionType } from '../types';
+import { ERROR_CATEGORIES } from './coach';
+import { ARITHMETIC_FORMULA_GUIDE, QUESTION_KEYS, TOPIC_INFO } from './topics';
+import { MATH_MARKUP_GUIDE } from './mathMarkup';
+
+// Prompt text shared by every LLM-backed provider, so Gemini and a local model
+// are asked for exactly the same thing.
+
+export const DIFFICULTY_GUIDE: Record<number, string> = {
+  1: 'Easy (Clerk prelims warm-up): small numbers, one or two operations, obvious patterns',
+  2: 'Moderate (PO prelims): standard patterns, two or three operations',
+  3: 'Moderate to High (PO prelims/mains): multi-step, mixed fractions and percentages',
+  4: 'High (PO mains): larger numbers, less obvious patterns, fractional roots',
+  5: 'Very High (toughest mains level): layered patterns and heavy calculation'
+};
+
+export const questionPrompt = (topic: QuestionType, count: number, difficulty: number) => {
+  const info = TOPIC_INFO[topic];
+  return `
+    Generate ${count} unique, challenging IBPS RRB PO level math questions for the topic: "${topic}".
+
+    Guidelines:
+    - **Options**: EXACTLY 5 options are required for every question.
+    - **${topic}**: Set "type" to "${info.key}". ${info.guideline}${info.group === 'arithmetic' ? `\n      ${ARITHMETIC_FORMULA_GUIDE}` : ''}
+    - **Notation**: ${MATH_MARKUP_GUIDE}
+    - **Difficulty**: Level ${difficulty} of 5 - ${DIFFICULTY_GUIDE[difficulty] ?? DIFFICULTY_GUIDE[3]}. Set "difficulty" to ${difficulty}.
+
+    Ensure answers are unambiguous.
+  `;
+};
+
+// For endpoints without schema-constrained output, spell the shape out in the prompt
+export const QUESTION_JSON_SHAPE = `
+    Respond with JSON only, in the form {"questions": [{"id": string, "type": ${QUESTION_KEYS.map(k => `"${k}"`).join(' | ')},
+    "questionText": string, "correctAnswer": string, "explanation": string, "difficulty": number, "options": string[]}]}.
+    For quadratic, put equations I and II in questionText on separate lines.
+    For di, use "type": "di" and add "dataSet": {"kind": "table" | "bar" | "line" | "pie", "title": string, "unit": string,
+    "categories": string[], "series": [{"name": string, "values": number[]}]} and "formula": string to each question.
+    For arithmetic word problems, add "formula": string to each question.
+  `;
+
+export const coachPrompt = (summary: DrillSummary) => `
+     Analyze this student's math drill performance:
+     ${JSON.stringify(summary)}
+
+     Coach them for IBPS PO exams:
+     - "summary": one or two encouraging but technical sentences.
+     - "mistakes": one entry per wrong or timed-out question, with its "questionNumber", a "category"
+       (one of ${ERROR_CATEGORIES.map(c => `"${c}"`).join(', ')}) and a short "note" on what went wrong.
+     - "techniques": 2 or 3 specific techniques ("title" and "description"), e.g. "Use unit digit method" or "Memorize squares up to 30".
+     - "nextDrill": the drill they should do next: "topic" (one of ${Object.values(QuestionType).map(t => `"${t}"`).join(', ')}),
+       "difficulty" (1-5), "count" (5-20 questions) and a one-sentence "reason".
+   `;
+
+// For endpoints without schema-constrained output
+export const COACH_JSON_SHAPE = `
+     Respond with JSON only, in the form {"summary": string, "mistakes": [{"questionNumber": number, "category": string, "note": string}],
+     "techniques": [{"title": string, "description": string}], "nextDrill": {"topic": string, "difficulty": number, "count": number, "reason": string}}.
+   `;
@@ -0,0 +1,58 @@
+import { CoachProvider, DrillSummary, ProviderId, ProviderSettings, QuestionProvider, QuestionType } from '../types';
+import { GEMINI_DEFAULT_MODEL, createGeminiProvider } from './gemini';
+import { OPENAI_DEFAULT_BASE_URL, OPENAI_DEFAULT_MODEL, createOpenAICompatibleProvider } from './openaiCompatible';
+import { fixtureProvider } from './fixtures';
+import { generateOfflineQuestions } from './offline';
+import { ruleBasedReport } from './coach';
+
+// Registry of question/coach backends. Components only ever see the
+// QuestionProvider and CoachProvider interfaces, never a specific SDK.
+
+const PROVIDER_SETTINGS_KEY = 'rapidmath.provider';
+
+export const PROVIDER_INFO: Record<ProviderId, { label: string; description: string; defaultModel: string }> = {
+  gemini: { label: 'Google Gemini', description: 'Hosted model, uses the API_KEY from the environment', defaultModel: GEMINI_DEFAULT_MODEL },
+  openai: { label: 'OpenAI-compatible', description: 'Any chat-completions endpoint, including local Ollama or llama.cpp', defaultModel: OPENAI_DEFAULT_MODEL },
+  offline: { label: 'Offline generator', description: 'Procedural questions and rule-based tips, no network', defaultModel: '' },
+  fixture: { label: 'Fixtures', description: 'Fixed questions and advice, for tests and demos', defaultModel: '' }
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: GEMINI_DEFAULT_MODEL
+};
+
+export const offlineProvider: QuestionProvider & CoachProvider = {
+  id: 'offline',
+  label: 'Offline',
+  generateQuestions: async (topic: QuestionType, count: number, difficulty: number) =>
+    generateOfflineQuestions(topic, count, Date.now(), difficulty),
+  analyzeDrill: async (summary: DrillSummary) => ruleBasedReport(summary)
+};
+
+export const createProvider = (settings: ProviderSettings): QuestionProvider & CoachProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.baseUrl || OPENAI_DEFAULT_BASE_URL, settings.model || OPENAI_DEFAULT_MODEL, settings.apiKey);
+    case 'offline':
+      return offlineProvider;
+    case 'fixture':
+      return fixtureProvider;
+    default:
+      return createGeminiProvider(settings.model || GEMINI_DEFAULT_MODEL);
+  }
+};
+
+// Like hotkeys, the backend is a device preference (a local server only exists on this machine)
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,112 @@
+import { BankedQuestion, ProviderId, Question, QuestionProvider, QuestionType } from '../types';
+import { hashString } from './review';
+import { verifyQuestions } from './verification';
+import { addBankedQuestions, listBankedQuestions, listSeenHashes, markQuestionsSeen } from './storage';
+
+// Local cache of verified provider questions. Drills draw questions the profile
+// hasn't seen from here first, and a background prefetch keeps each topic stocked
+// so the next drill starts without waiting on the network.
+
+export const PREFETCH_BATCH = 10;
+const LOW_WATER_MARK = 10; // Unseen questions per topic below which a prefetch tops up
+const DIFFICULTY_SPREAD = 1; // Banked questions this far from the target level still count
+
+// Whitespace, operator glyphs and minus signs vary between batches of the same question
+const normalizeQuestionText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[−–]/g, '-')
+    .replace(/\*/g, '×')
+    .replace(/\//g, '÷')
+    .replace(/\s+/g, '');
+
+// DI questions read the same across sets ("What is the average ...?"), so the dataset is part of the key
+export const questionHash = (question: Question) =>
+  hashString(`${question.type}|${question.dataSet ? `${question.dataSet.id}|` : ''}${normalizeQuestionText(question.questionText)}`);
+
+const toEntries = (topic: QuestionType, provider: ProviderId, questions: Question[]): BankedQuestion[] => {
+  const addedAt = new Date().toISOString();
+  const byHash = new Map<string, BankedQuestion>();
+  for (const question of questions) {
+    const hash = questionHash(question);
+    // Provider ids repeat between batches ("1", "2", ...), so banked questions take their hash
+    if (!byHash.has(hash)) byHash.set(hash, { hash, topic, provider, addedAt, question: { ...question, id: `bank-${hash}` } });
+  }
+  return [...byHash.values()];
+};
+
+const distance = (entry: BankedQuestion, difficulty: number) => Math.abs((entry.question.difficulty ?? 3) - difficulty);
+
+// Only the active provider's questions: fixtures or a local model's never stand in for Gemini's, or the reverse
+const pickUnseen = (entries: BankedQuestion[], seen: Set<string>, count: number, difficulty: number, provider: ProviderId) =>
+  entries
+    .filter(e => e.provider === provider && !seen.has(e.hash) && distance(e, difficulty) <= DIFFICULTY_SPREAD)
+    .sort((a, b) => distance(a, difficulty) - distance(b, difficulty) || a.addedAt.localeCompare(b.addedAt))
+    .slice(0, count);
+
+// Serves unseen banked questions, fetching (and banking) only what the bank can't cover.
+// Everything served is marked seen so the profile doesn't get it again. Storage
+// failures fall back to fetching; fetch errors propagate unless the bank had something.
+export const drawQuestions = async (
+  profileId: string,
+  topic: QuestionType,
+  count: number,
+  difficulty: number,
+  provider: ProviderId,
+  fetchFresh: (count: number) => Promise<Question[]>
+): Promise<Question[]> => {
+  let entries: BankedQuestion[];
+  let seen: Set<string>;
+  try {
+    [entries, seen] = await Promise.all([listBankedQuestions(topic), listSeenHashes(profileId)]);
+  } catch (error) {
+    console.error('Question bank unavailable:', error);
+    return fetchFresh(count);
+  }
+
+  const drawn = pickUnseen(entries, seen, count, difficulty, provider);
+  if (drawn.length < count) {
+    let fresh: BankedQuestion[] = [];
+    try {
+      fresh = toEntries(topic, provider, await fetchFresh(count - drawn.length));
+    } catch (error) {
+      if (drawn.length === 0) throw error;
+      console.error('Serving a partial batch from the bank:', error);
+    }
+    await addBankedQuestions(fresh).catch(error => console.error('Failed to bank questions:', error));
+    const taken = new Set(drawn.map(e => e.hash));
+    drawn.push(...fresh.filter(e => !seen.has(e.hash) && !taken.has(e.hash)).slice(0, count - drawn.length));
+  }
+  await markQuestionsSeen(profileId, drawn.map(e => e.hash)).catch(error => console.error('Failed to mark questions seen:', error));
+  return drawn.map(e => e.question);
+};
+
+const inFlight = new Map<string, Promise<void>>();
+
+// Fire-and-forget: tops a topic up when the profile is running low on unseen questions
+export const prefetchQuestions = (
+  profileId: string,
+  topic: QuestionType,
+  provider: QuestionProvider,
+  difficulty: number
+): Promise<void> => {
+  if (provider.id === 'offline') return Promise.resolve();
+  const key = `${provider.id}:${topic}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = (async () => {
+    try {
+      const [entries, seen] = await Promise.all([listBankedQuestions(topic), listSeenHashes(profileId)]);
+      if (pickUnseen(entries, seen, LOW_WATER_MARK, difficulty, provider.id).length >= LOW_WATER_MARK) return;
+      const fresh = verifyQuestions(await provider.generateQuestions(topic, PREFETCH_BATCH, difficulty));
+      await addBankedQuestions(toEntries(topic, provider.id, fresh));
+    } catch (error) {
+      console.error('Question prefetch failed:', error);
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, run);
+  return run;
+};
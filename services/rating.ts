@@ -0,0 +1,88 @@
+import { DrillResult, DrillSettings, QuestionType } from '../types';
+import { resultTimeBudget } from './drillSettings';
+import { topicForKey } from './topics';
+
+// Elo-style skill rating per topic. Each question is treated as an opponent whose
+// rating comes from its difficulty level; a fast correct answer counts as a full
+// win, a slow one as a partial win. Ratings are always replayed from the stored
+// history, so they never drift from the drills that produced them.
+
+export const INITIAL_RATING = 1200;
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+const K_FACTOR = 32;
+
+export const DIFFICULTY_LABELS: Record<number, string> = {
+  1: 'Easy',
+  2: 'Moderate',
+  3: 'Moderate to High',
+  4: 'High',
+  5: 'Very High'
+};
+
+export interface RatingPoint {
+  date: string;
+  rating: number;
+}
+
+export interface TopicRating {
+  rating: number;
+  change: number; // Change from the most recent drill on this topic
+  history: RatingPoint[];
+}
+
+export type Ratings = Record<QuestionType, TopicRating>;
+
+export const difficultyRating = (difficulty: number) => 800 + 200 * difficulty;
+
+export const clampDifficulty = (level: number) =>
+  Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, Math.round(level)));
+
+// Aim slightly above the current rating so roughly two in three answers land
+export const targetDifficulty = (rating: number) => clampDifficulty((rating + 100 - 800) / 200);
+
+export const drillDifficulty = (settings: DrillSettings, rating: number) =>
+  settings.difficulty === 'adaptive' ? targetDifficulty(rating) : settings.difficulty;
+
+const expectedScore = (rating: number, opponent: number) => 1 / (1 + 10 ** ((opponent - rating) / 400));
+
+// 1 for an instant correct answer, falling to 0.6 for one at the buzzer, 0 for a miss
+export const performanceScore = (isCorrect: boolean, timeSpent: number, timeBudget: number) =>
+  isCorrect ? 0.6 + 0.4 * Math.max(0, 1 - timeSpent / timeBudget) : 0;
+
+const emptyRatings = (): Ratings =>
+  Object.values(QuestionType).reduce((ratings, topic) => {
+    ratings[topic] = { rating: INITIAL_RATING, change: 0, history: [] };
+    return ratings;
+  }, {} as Ratings);
+
+export const topicOf = (result: DrillResult, detail: DrillResult['details'][number]): QuestionType | null => {
+  if (detail.type) return topicForKey(detail.type) ?? null;
+  return (Object.values(QuestionType) as string[]).includes(result.topic) ? (result.topic as QuestionType) : null;
+};
+
+export const computeRatings = (history: DrillResult[]): Ratings => {
+  const ratings = emptyRatings();
+  const ordered = [...history].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const result of ordered) {
+    const deltas = new Map<QuestionType, number>();
+    const timeBudget = resultTimeBudget(result);
+    for (const detail of result.details) {
+      const topic = topicOf(result, detail);
+      if (!topic) continue;
+      const current = ratings[topic].rating;
+      const opponent = difficultyRating(detail.difficulty ?? result.difficulty ?? 3);
+      const delta = K_FACTOR * (performanceScore(detail.isCorrect, detail.timeSpent, timeBudget) - expectedScore(current, opponent));
+      deltas.set(topic, (deltas.get(topic) ?? 0) + delta);
+    }
+    // Apply a drill's updates together so question order inside a drill doesn't matter
+    deltas.forEach((delta, topic) => {
+      const entry = ratings[topic];
+      entry.rating = Math.round(entry.rating + delta);
+      entry.change = Math.round(delta);
+      entry.history.push({ date: result.date, rating: entry.rating });
+    });
+  }
+  return ratings;
+};
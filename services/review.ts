@@ -0,0 +1,113 @@
+import { DrillDetail, DrillResult, Question, ReviewCard } from '../types';
+import { outcomeOf } from './scoring';
+import { resultTimeBudget } from './drillSettings';
+
+// SM-2 style scheduling for missed questions. Every miss or timeout becomes a
+// review card; replaying a card grades it 0-5 from correctness and speed, which
+// stretches or resets its interval.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+const DEFAULT_EASINESS = 2.5;
+
+// FNV-1a, enough to give identical questions the same card across drills
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// AI question ids repeat between batches ("1", "2", ...), so cards are keyed by content instead
+export const reviewQuestionId = (question: Question) =>
+  question.id.startsWith('review-')
+    ? question.id
+    : `review-${hashString(`${question.type}|${question.dataSet ? `${question.dataSet.id}|` : ''}${question.questionText}`)}`;
+
+export const cardKey = (profileId: string, questionId: string) => `${profileId}:${questionId}`;
+
+export const createCard = (profileId: string, question: Question, now: Date = new Date()): ReviewCard => {
+  const id = reviewQuestionId(question);
+  return {
+    key: cardKey(profileId, id),
+    profileId,
+    question: { ...question, id },
+    easiness: DEFAULT_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    // A fresh miss is worth revisiting straight away
+    due: now.toISOString()
+  };
+};
+
+// 5 = fast and correct, 3 = correct but slow, 1 = wrong or skipped, 0 = timed out
+export const qualityFromDetail = (detail: DrillDetail, timeLimit: number = 30): number => {
+  const outcome = outcomeOf(detail);
+  if (outcome === 'timeout') return 0;
+  if (outcome !== 'correct') return 1;
+  if (detail.timeSpent <= timeLimit / 3) return 5;
+  if (detail.timeSpent <= (timeLimit * 2) / 3) return 4;
+  return 3;
+};
+
+export const gradeCard = (card: ReviewCard, quality: number, now: Date = new Date()): ReviewCard => {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  let lapses = card.lapses;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easiness);
+  }
+
+  return {
+    ...card,
+    easiness,
+    repetitions,
+    interval,
+    lapses,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString()
+  };
+};
+
+export const isDue = (card: ReviewCard, now: Date = new Date()) => new Date(card.due).getTime() <= now.getTime();
+
+export const dueCards = (cards: ReviewCard[], now: Date = new Date()) =>
+  cards.filter(c => isDue(c, now)).sort((a, b) => a.due.localeCompare(b.due));
+
+// Returns only the cards a finished drill created or rescheduled
+export const applyDrillResult = (
+  profileId: string,
+  cards: ReviewCard[],
+  result: DrillResult,
+  now: Date = new Date()
+): ReviewCard[] => {
+  const byKey = new Map(cards.map(c => [c.key, c]));
+  const changed = new Map<string, ReviewCard>();
+
+  for (const detail of result.details) {
+    const existing = byKey.get(cardKey(profileId, detail.questionId))
+      ?? (detail.question ? byKey.get(cardKey(profileId, reviewQuestionId(detail.question))) : undefined);
+
+    if (existing) {
+      const graded = gradeCard(changed.get(existing.key) ?? existing, qualityFromDetail(detail, resultTimeBudget(result)), now);
+      changed.set(graded.key, graded);
+    } else if (!detail.isCorrect && detail.question) {
+      const card = createCard(profileId, detail.question, now);
+      changed.set(card.key, card);
+    }
+  }
+  return [...changed.values()];
+};
@@ -0,0 +1,54 @@
+import { AppView, QuestionKey, REVIEW_TOPIC, Route } from '../types';
+import { QUESTION_KEYS, QUESTION_TYPE_KEYS, topicForKey } from './topics';
+
+// Hash routes, e.g. #/drill/series or #/analysis/1718000000000. Hashes keep the
+// app a static page: no server rewrites, and reloads land on the same screen.
+
+const REVIEW_SEGMENT = 'review';
+
+const SIMPLE_VIEWS: AppView[] = ['login', 'dashboard', 'mock', 'analytics', 'sprint', 'settings'];
+
+export const routeHash = (route: Route): string => {
+  switch (route.view) {
+    case 'drill':
+      return `#/drill/${route.topic === REVIEW_TOPIC ? REVIEW_SEGMENT : QUESTION_TYPE_KEYS[route.topic]}`;
+    case 'analysis':
+    case 'solutions':
+      return `#/${route.view}/${encodeURIComponent(route.drillId)}`;
+    default:
+      return `#/${route.view}`;
+  }
+};
+
+// Null for an empty hash or anything unrecognised
+export const parseRoute = (hash: string): Route | null => {
+  const [view, param, ...rest] = hash.replace(/^#\/?/, '').split('/');
+  if (rest.length > 0) return null;
+  if (param === undefined) {
+    return SIMPLE_VIEWS.includes(view as AppView) ? ({ view } as Route) : null;
+  }
+  if (view === 'drill') {
+    if (param === REVIEW_SEGMENT) return { view, topic: REVIEW_TOPIC };
+    const topic = QUESTION_KEYS.includes(param as QuestionKey) ? topicForKey(param as QuestionKey) : undefined;
+    return topic ? { view, topic } : null;
+  }
+  if ((view === 'analysis' || view === 'solutions') && param) {
+    try {
+      return { view, drillId: decodeURIComponent(param) };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+export const currentRoute = (): Route | null => parseRoute(window.location.hash);
+
+// Replacing is for redirects and for screens that shouldn't be returned to with Back
+export const writeRoute = (route: Route, replace: boolean = false) => {
+  const hash = routeHash(route);
+  if (hash === window.location.hash) return;
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  if (replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+};
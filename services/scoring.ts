@@ -0,0 +1,66 @@
+import { AnswerOutcome, AttemptStats, DrillDetail, DrillResult, ScoringModel, ScoringPresetId } from '../types';
+
+// Marks per outcome. IBPS prelims: +1 for a correct answer, -0.25 for a wrong one,
+// nothing for a question left alone (skipped or timed out).
+export const IBPS_SCORING: ScoringModel = { correct: 1, wrong: -0.25, skipped: 0, timeout: 0 };
+
+export const SCORING_PRESETS: Record<ScoringPresetId, { label: string; model: ScoringModel }> = {
+  ibps: { label: 'IBPS (-0.25)', model: IBPS_SCORING },
+  third: { label: 'One-third (-0.33)', model: { correct: 1, wrong: -1 / 3, skipped: 0, timeout: 0 } },
+  none: { label: 'No negative marking', model: { correct: 1, wrong: 0, skipped: 0, timeout: 0 } }
+};
+
+export const OUTCOMES: AnswerOutcome[] = ['correct', 'wrong', 'skipped', 'timeout'];
+
+const hasFiniteNumbers = (value: unknown, keys: readonly string[]) =>
+  typeof value === 'object' && value !== null && keys.every(key => Number.isFinite((value as Record<string, unknown>)[key]));
+
+// For models and stats that arrive from outside the app: a link or an imported file
+export const isScoringModel = (value: unknown): value is ScoringModel => hasFiniteNumbers(value, OUTCOMES);
+
+export const isAttemptStats = (value: unknown): value is AttemptStats =>
+  hasFiniteNumbers(value, ['correct', 'wrong', 'skipped', 'timedOut', 'attempted', 'netMarks', 'maxMarks']);
+
+// Older results predate `outcome`, so fall back to the sentinel answers they stored
+export const outcomeOf = (detail: DrillDetail): AnswerOutcome => {
+  if (detail.outcome) return detail.outcome;
+  if (detail.isCorrect) return 'correct';
+  if (detail.userAnswer === 'Timeout') return 'timeout';
+  if (detail.userAnswer === 'Skipped' || detail.userAnswer === '') return 'skipped';
+  return 'wrong';
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const computeStats = (details: DrillDetail[], model: ScoringModel = IBPS_SCORING): AttemptStats => {
+  const count = (o: AnswerOutcome) => details.filter(d => outcomeOf(d) === o).length;
+  const correct = count('correct');
+  const wrong = count('wrong');
+  const skipped = count('skipped');
+  const timedOut = count('timeout');
+  return {
+    correct,
+    wrong,
+    skipped,
+    timedOut,
+    attempted: correct + wrong,
+    netMarks: round2(correct * model.correct + wrong * model.wrong + skipped * model.skipped + timedOut * model.timeout),
+    maxMarks: details.length * model.correct
+  };
+};
+
+// score = net marks as a share of the maximum; accuracy = correct out of attempted
+export const scoreDrill = (details: DrillDetail[], model: ScoringModel = IBPS_SCORING) => {
+  const stats = computeStats(details, model);
+  return {
+    stats,
+    scoring: model,
+    score: stats.maxMarks > 0 ? (stats.netMarks / stats.maxMarks) * 100 : 0,
+    accuracy: stats.attempted > 0 ? (stats.correct / stats.attempted) * 100 : 0
+  };
+};
+
+export const resultStats = (result: DrillResult): AttemptStats =>
+  result.stats ?? computeStats(result.details, result.scoring);
+
+export const formatMarks = (marks: number) => `${marks > 0 ? '+' : ''}${Number(marks.toFixed(2))}`;
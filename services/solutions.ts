@@ -0,0 +1,29 @@
+import { DrillDetail, DrillResult } from '../types';
+import { outcomeOf } from './scoring';
+import { resultTimeBudget } from './drillSettings';
+
+// Filters for the worked-solution review of a finished drill
+
+export type SolutionFilter = 'all' | 'wrong' | 'slow';
+
+export const SOLUTION_FILTER_LABELS: Record<SolutionFilter, string> = {
+  all: 'All',
+  wrong: 'Wrong only',
+  slow: 'Slow only'
+};
+
+// Same cut-off the review queue uses for "correct but slow": past two thirds of the time a question had
+export const isSlow = (detail: DrillDetail, timeLimit: number = 30) => detail.timeSpent > (timeLimit * 2) / 3;
+
+// Skips and timeouts count as wrong here; there is still a solution to read
+export const isMissed = (detail: DrillDetail) => outcomeOf(detail) !== 'correct';
+
+export interface NumberedDetail {
+  number: number;
+  detail: DrillDetail;
+}
+
+export const filterSolutions = (result: DrillResult, filter: SolutionFilter): NumberedDetail[] =>
+  result.details
+    .map((detail, i) => ({ number: i + 1, detail }))
+    .filter(({ detail }) => filter === 'all' || (filter === 'wrong' ? isMissed(detail) : isSlow(detail, resultTimeBudget(result))));
@@ -0,0 +1,117 @@
+import { Fact, FactKind, FactMastery, SprintAttempt } from '../types';
+import { parseNumber } from './expression';
+
+// Sprint mode: a timed burst of typed recall facts (squares, cubes, tables,
+// fraction ↔ percentage). Every answer updates that fact's mastery record, and
+// facts are drawn with weights that favour the slow and the often-missed.
+
+export const SPRINT_SECONDS = 60;
+
+export const FACT_KIND_LABELS: Record<FactKind, string> = {
+  square: 'Squares to 50',
+  cube: 'Cubes to 20',
+  table: 'Tables to 30',
+  fraction: 'Fractions ↔ %'
+};
+
+export const FACT_KINDS = Object.keys(FACT_KIND_LABELS) as FactKind[];
+
+// A correct answer slower than this still counts against the fact
+const TARGET_MS = 2000;
+const MASTERED_STREAK = 3;
+const UNSEEN_WEIGHT = 2;
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// Unit fractions plus the common non-unit ones the exam leans on
+const FRACTIONS: [number, number][] = [
+  ...range(2, 20).map((n): [number, number] => [1, n]),
+  [2, 3], [3, 4], [2, 5], [3, 5], [4, 5], [5, 6], [2, 7], [3, 7], [3, 8], [5, 8], [7, 8], [2, 9], [4, 9], [5, 9], [7, 9], [3, 11], [5, 12], [7, 12]
+];
+
+const percentOf = (k: number, n: number) => Number(((k / n) * 100).toFixed(2));
+
+export const FACTS: Fact[] = [
+  ...range(2, 50).map((n): Fact => ({ id: `square-${n}`, kind: 'square', prompt: `${n}²`, answer: n * n })),
+  ...range(2, 20).map((n): Fact => ({ id: `cube-${n}`, kind: 'cube', prompt: `${n}³`, answer: n ** 3 })),
+  // Tables 2-10 are assumed; 11-30 are the ones worth drilling
+  ...range(11, 30).flatMap(a => range(2, 9).map((b): Fact => ({ id: `table-${a}x${b}`, kind: 'table', prompt: `${a} × ${b}`, answer: a * b }))),
+  ...FRACTIONS.map(([k, n]): Fact => ({ id: `fraction-${k}/${n}`, kind: 'fraction', prompt: `${k}/${n} = ?%`, answer: percentOf(k, n) })),
+  // And back again, for unit fractions
+  ...range(2, 20).map((n): Fact => ({ id: `percent-1/${n}`, kind: 'fraction', prompt: `${percentOf(1, n)}% = 1/?`, answer: n }))
+];
+
+export const factsOfKinds = (kinds: FactKind[]) => FACTS.filter(f => kinds.includes(f.kind));
+
+export const masteryKey = (profileId: string, factId: string) => `${profileId}:${factId}`;
+
+// Percentages are quoted to two decimals, so allow for the last digit
+export const isCorrectAnswer = (fact: Fact, input: string): boolean => {
+  const value = parseNumber(input.trim());
+  if (value === null) return false;
+  return Math.abs(value - fact.answer) <= (Number.isInteger(fact.answer) ? 0 : 0.011);
+};
+
+export const factWeight = (mastery?: FactMastery): number => {
+  if (!mastery || mastery.attempts === 0) return UNSEEN_WEIGHT;
+  const missRate = 1 - mastery.correct / mastery.attempts;
+  const slowness = Math.min(2, mastery.avgMs / TARGET_MS);
+  const weight = 1 + 4 * missRate + slowness;
+  return mastery.streak >= MASTERED_STREAK ? weight / 2 : weight;
+};
+
+export const isMastered = (mastery?: FactMastery) =>
+  !!mastery && mastery.streak >= MASTERED_STREAK && mastery.avgMs <= TARGET_MS;
+
+// Weighted draw; never the same fact twice in a row
+export const nextFact = (
+  facts: Fact[],
+  mastery: Map<string, FactMastery>,
+  profileId: string,
+  previousId?: string,
+  random: () => number = Math.random
+): Fact => {
+  const pool = facts.length > 1 ? facts.filter(f => f.id !== previousId) : facts;
+  const weights = pool.map(f => factWeight(mastery.get(masteryKey(profileId, f.id))));
+  let roll = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < pool.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return pool[i];
+  }
+  return pool[pool.length - 1];
+};
+
+export const recordAttempt = (
+  profileId: string,
+  previous: FactMastery | undefined,
+  attempt: SprintAttempt,
+  now: Date = new Date()
+): FactMastery => {
+  const base: FactMastery = previous ?? {
+    key: masteryKey(profileId, attempt.factId),
+    profileId,
+    factId: attempt.factId,
+    attempts: 0,
+    correct: 0,
+    streak: 0,
+    avgMs: 0,
+    lastSeen: now.toISOString()
+  };
+  return {
+    ...base,
+    attempts: base.attempts + 1,
+    correct: base.correct + (attempt.correct ? 1 : 0),
+    streak: attempt.correct ? base.streak + 1 : 0,
+    // A miss leaves the speed alone; its cost is already in the miss rate
+    avgMs: !attempt.correct ? base.avgMs : base.avgMs === 0 ? attempt.ms : Math.round(base.avgMs * 0.7 + attempt.ms * 0.3),
+    lastSeen: now.toISOString()
+  };
+};
+
+// The facts most in need of work, for the sprint summary
+export const weakestFacts = (facts: Fact[], mastery: Map<string, FactMastery>, profileId: string, count: number = 5) =>
+  facts
+    .map(fact => ({ fact, mastery: mastery.get(masteryKey(profileId, fact.id)) }))
+    .filter(f => f.mastery && f.mastery.attempts > 0)
+    .sort((a, b) => factWeight(b.mastery) - factWeight(a.mastery))
+    .slice(0, count);
@@ -0,0 +1,272 @@
+import { User, DrillResult, DrillSettings, ReviewCard, BankedQuestion, SeenQuestion, FactMastery } from '../types';
+
+// IndexedDB persistence for profiles and drill history. The schema is versioned:
+// each entry in MIGRATIONS upgrades the database by exactly one version, so a
+// device that skipped releases replays every step it missed in order.
+
+const DB_NAME = 'rapidmath';
+const ACTIVE_PROFILE_KEY = 'rapidmath.activeProfile';
+
+export const STORES = {
+  profiles: 'profiles',
+  results: 'results',
+  reviewCards: 'reviewCards',
+  questionBank: 'questionBank',
+  seenQuestions: 'seenQuestions',
+  factMastery: 'factMastery'
+} as const;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: profiles and their drill results
+  (db) => {
+    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+    const results = db.createObjectStore(STORES.results, { keyPath: 'id' });
+    results.createIndex('profileId', 'profileId', { unique: false });
+  },
+  // v2: spaced-repetition cards built from missed questions
+  (db) => {
+    const cards = db.createObjectStore(STORES.reviewCards, { keyPath: 'key' });
+    cards.createIndex('profileId', 'profileId', { unique: false });
+  },
+  // v3: shared question bank keyed by content hash, and which profile has seen what
+  (db) => {
+    const bank = db.createObjectStore(STORES.questionBank, { keyPath: 'hash' });
+    bank.createIndex('topic', 'topic', { unique: false });
+    const seen = db.createObjectStore(STORES.seenQuestions, { keyPath: 'key' });
+    seen.createIndex('profileId', 'profileId', { unique: false });
+  },
+  // v4: per-fact recall records for sprint mode
+  (db) => {
+    const mastery = db.createObjectStore(STORES.factMastery, { keyPath: 'key' });
+    mastery.createIndex('profileId', 'profileId', { unique: false });
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+interface ProfileRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  settings?: DrillSettings;
+}
+
+type ResultRecord = DrillResult & { profileId: string };
+
+export const request = <T,>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Another tab still holds the previous schema open, so the upgrade can't run
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('RapidMath is open in another tab running an older version, which keeps this one from updating your saved data.');
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let blocked = false;
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const tx = req.transaction as IDBTransaction;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) {
+          MIGRATIONS[v](req.result, tx);
+        }
+      };
+      req.onblocked = () => {
+        blocked = true;
+        reject(new DatabaseBlockedError());
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // The other tabs closed after all, but this one has already given up and shown the error
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // A newer version opening in another tab: step aside so its upgrade isn't blocked
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` inside one transaction and resolves once it has committed
+export const transact = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const [result] = await Promise.all([work(tx), done(tx)]);
+  return result;
+};
+
+const stripProfileId = ({ profileId, ...result }: ResultRecord): DrillResult => result;
+
+const byDate = (a: DrillResult, b: DrillResult) => a.date.localeCompare(b.date);
+
+const loadHistory = async (tx: IDBTransaction, profileId: string): Promise<DrillResult[]> => {
+  const index = tx.objectStore(STORES.results).index('profileId');
+  const records = await request<ResultRecord[]>(index.getAll(profileId));
+  return records.map(stripProfileId).sort(byDate);
+};
+
+export const listProfiles = (): Promise<User[]> =>
+  transact([STORES.profiles, STORES.results], 'readonly', async (tx) => {
+    const profiles = await request<ProfileRecord[]>(tx.objectStore(STORES.profiles).getAll());
+    const users = await Promise.all(
+      profiles.map(async (p) => ({ ...p, history: await loadHistory(tx, p.id) }))
+    );
+    return users.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  });
+
+export const createProfile = async (name: string): Promise<User> => {
+  const profile: ProfileRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: new Date().toISOString()
+  };
+  await transact([STORES.profiles], 'readwrite', async (tx) => {
+    await request(tx.objectStore(STORES.profiles).add(profile));
+  });
+  return { ...profile, history: [] };
+};
+
+export const saveProfileSettings = (profileId: string, settings: DrillSettings): Promise<void> =>
+  transact([STORES.profiles], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.profiles);
+    const profile = await request<ProfileRecord | undefined>(store.get(profileId));
+    if (!profile) throw new Error(`No profile ${profileId}`);
+    await request(store.put({ ...profile, settings }));
+  });
+
+// Stores whose records belong to a single profile through a `profileId` index
+const PROFILE_OWNED = [STORES.results, STORES.reviewCards, STORES.seenQuestions, STORES.factMastery];
+
+export const deleteProfile = (profileId: string): Promise<void> =>
+  transact([STORES.profiles, ...PROFILE_OWNED], 'readwrite', async (tx) => {
+    for (const name of PROFILE_OWNED) {
+      const store = tx.objectStore(name);
+      const keys = await request(store.index('profileId').getAllKeys(profileId));
+      await Promise.all(keys.map(key => request(store.delete(key))));
+    }
+    await request(tx.objectStore(STORES.profiles).delete(profileId));
+    if (getActiveProfileId() === profileId) setActiveProfileId(null);
+  });
+
+export const saveResult = (profileId: string, result: DrillResult): Promise<void> =>
+  transact([STORES.results], 'readwrite', async (tx) => {
+    const record: ResultRecord = { ...result, profileId };
+    await request(tx.objectStore(STORES.results).put(record));
+  });
+
+// Results are keyed by id alone, so an imported id another profile already owns gets a
+// suffix instead of overwriting (and taking over) that profile's record. Resolves to the
+// results as saved.
+export const importResults = (profileId: string, results: DrillResult[]): Promise<DrillResult[]> =>
+  transact([STORES.results], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.results);
+    const taken = new Set<string>();
+    const saved: DrillResult[] = [];
+    for (const result of results) {
+      let id = result.id;
+      for (let n = 1; ; n++) {
+        const existing = await request<ResultRecord | undefined>(store.get(id));
+        if (!taken.has(id) && (!existing || existing.profileId === profileId)) break;
+        id = `${result.id}-${n}`;
+      }
+      taken.add(id);
+      saved.push({ ...result, id });
+      await request(store.put({ ...result, id, profileId } as ResultRecord));
+    }
+    return saved;
+  });
+
+export const listReviewCards = (profileId: string): Promise<ReviewCard[]> =>
+  transact([STORES.reviewCards], 'readonly', (tx) =>
+    request<ReviewCard[]>(tx.objectStore(STORES.reviewCards).index('profileId').getAll(profileId))
+  );
+
+export const saveReviewCards = (cards: ReviewCard[]): Promise<void> =>
+  transact([STORES.reviewCards], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.reviewCards);
+    await Promise.all(cards.map(card => request(store.put(card))));
+  });
+
+export const listBankedQuestions = (topic: string): Promise<BankedQuestion[]> =>
+  transact([STORES.questionBank], 'readonly', (tx) =>
+    request<BankedQuestion[]>(tx.objectStore(STORES.questionBank).index('topic').getAll(topic))
+  );
+
+// Returns only the entries that were new; a hash already in the bank is left untouched
+export const addBankedQuestions = (entries: BankedQuestion[]): Promise<BankedQuestion[]> =>
+  transact([STORES.questionBank], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.questionBank);
+    const added: BankedQuestion[] = [];
+    for (const entry of entries) {
+      if (await request(store.getKey(entry.hash)) !== undefined) continue;
+      await request(store.add(entry));
+      added.push(entry);
+    }
+    return added;
+  });
+
+export const listSeenHashes = async (profileId: string): Promise<Set<string>> => {
+  const seen = await transact([STORES.seenQuestions], 'readonly', (tx) =>
+    request<SeenQuestion[]>(tx.objectStore(STORES.seenQuestions).index('profileId').getAll(profileId))
+  );
+  return new Set(seen.map(s => s.hash));
+};
+
+export const markQuestionsSeen = (profileId: string, hashes: string[]): Promise<void> =>
+  transact([STORES.seenQuestions], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.seenQuestions);
+    const seenAt = new Date().toISOString();
+    await Promise.all(hashes.map(hash => request(store.put({ key: `${profileId}:${hash}`, profileId, hash, seenAt }))));
+  });
+
+export const listFactMastery = (profileId: string): Promise<FactMastery[]> =>
+  transact([STORES.factMastery], 'readonly', (tx) =>
+    request<FactMastery[]>(tx.objectStore(STORES.factMastery).index('profileId').getAll(profileId))
+  );
+
+export const saveFactMastery = (records: FactMastery[]): Promise<void> =>
+  transact([STORES.factMastery], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.factMastery);
+    await Promise.all(records.map(record => request(store.put(record))));
+  });
+
+// The active profile only decides which profile to reopen after a refresh, so localStorage is enough
+export const getActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const setActiveProfileId = (profileId: string | null) => {
+  if (profileId) localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
@@ -0,0 +1,186 @@
+import { QuestionKey, QuestionType, TopicGroup, TopicInfo } from '../types';
+
+// The topic registry. Cards, chart colours, prompts, coaching and answer tolerances
+// are all read from here, so a new topic is one entry plus its generator and check.
+
+export const TOPIC_GROUP_LABELS: Record<TopicGroup, string> = {
+  calculation: 'Calculation',
+  arithmetic: 'Arithmetic',
+  data: 'Data Interpretation'
+};
+
+// Arithmetic word problems state their working as a plain formula, which is how their keys are checked
+export const ARITHMETIC_FORMULA_GUIDE =
+  'Give each question a "formula": the answer as one BODMAS expression using only numbers from the question, ' +
+  'e.g. "800 × (100 + 25) ÷ 100". Answers are plain numbers (no units), rounded to at most 2 decimals.';
+
+export const TOPICS: TopicInfo[] = [
+  {
+    topic: QuestionType.SIMPLIFICATION,
+    key: 'simplification',
+    group: 'calculation',
+    label: 'Simplification',
+    description: 'Rapid fire BODMAS & calculations',
+    color: 'from-blue-500 to-indigo-600',
+    stroke: '#3b82f6',
+    guideline: 'Use standard BODMAS, written as an equation ending in "= ?". Answer matches one option exactly.',
+    errorCategory: 'calculation',
+    techniques: [
+      { title: 'Unit digit check', description: 'Before committing, compare the unit digit of your answer with the unit digits of the operations. It rules out most wrong options instantly.' },
+      { title: 'Squares and cubes by heart', description: 'Memorize squares up to 30 and cubes up to 20 so powers never need working out.' }
+    ]
+  },
+  {
+    topic: QuestionType.SERIES,
+    key: 'series',
+    group: 'calculation',
+    label: 'Number Series',
+    description: 'Identify missing or wrong patterns',
+    color: 'from-emerald-500 to-teal-600',
+    stroke: '#10b981',
+    guideline: 'Provide the sequence. Question text: "Find the missing term: 12, 24, ?, 96".',
+    errorCategory: 'pattern',
+    techniques: [
+      { title: 'Differences, then ratios', description: 'Write the first differences under the series. If they are not constant, try second differences, then ratios, then alternating terms.' },
+      { title: 'Spot n² ± n and n³ ± n', description: 'Many series hide squares or cubes plus a small offset. Check whether each term is near a perfect square or cube.' }
+    ]
+  },
+  {
+    topic: QuestionType.QUADRATIC,
+    key: 'quadratic',
+    group: 'calculation',
+    label: 'Quadratic Eq.',
+    description: 'Root comparison (x > y, etc.)',
+    color: 'from-purple-500 to-violet-600',
+    stroke: '#8b5cf6',
+    guideline: 'Two equations (I and II). Answer choices MUST be: "x > y", "x >= y", "x < y", "x <= y", "x = y or no relation".',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'Signs give the roots', description: 'For x² + bx + c = 0 with c > 0, both roots share the sign opposite to b; with c < 0 they have opposite signs. Often that settles the relation without solving.' },
+      { title: 'Factor by sum and product', description: 'Find two numbers with product c and sum b instead of using the formula; for ax², split the middle term using a × c.' }
+    ]
+  },
+  {
+    topic: QuestionType.APPROXIMATION,
+    key: 'approximation',
+    group: 'calculation',
+    label: 'Approximation',
+    description: 'Estimate values quickly',
+    color: 'from-orange-500 to-pink-600',
+    stroke: '#f97316',
+    guideline: 'Use standard BODMAS with values like 14.99% or 120.01, written as an equation ending in "≈ ?". Answer matches one option exactly.',
+    errorCategory: 'estimation',
+    techniques: [
+      { title: 'Round to friendly numbers first', description: 'Round every value to the nearest number that makes the arithmetic trivial (e.g. 24.98% → 25%, 801.03 → 800) before calculating.' },
+      { title: 'Use the option gaps', description: 'Look at how far apart the options are; when they are widely spaced, rough rounding is enough.' }
+    ],
+    tolerance: 0.03
+  },
+  {
+    topic: QuestionType.PERCENTAGE,
+    key: 'percentage',
+    group: 'arithmetic',
+    label: 'Percentage',
+    description: 'Percent of, increase/decrease, successive change',
+    color: 'from-cyan-500 to-sky-600',
+    stroke: '#06b6d4',
+    guideline: 'Word problems on percent of a quantity, percentage increase and decrease, and successive changes (populations, salaries, prices).',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'Percentages as fractions', description: 'Know 12.5% = 1/8, 16.67% = 1/6, 37.5% = 3/8 and so on. Most percentage questions become a single multiplication.' },
+      { title: 'Multiplying factors', description: 'An increase of r% multiplies by (100 + r)/100. Chain the factors for successive changes instead of working year by year.' }
+    ],
+    tolerance: 0.005
+  },
+  {
+    topic: QuestionType.PROFIT_LOSS,
+    key: 'profit-loss',
+    group: 'arithmetic',
+    label: 'Profit & Loss',
+    description: 'Cost, selling and marked prices, discounts',
+    color: 'from-lime-500 to-green-600',
+    stroke: '#84cc16',
+    guideline: 'Word problems on cost price, selling price, profit or loss percentage, marked price and discount. Profit and loss percentages are on cost price.',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'Everything on cost price', description: 'Profit and loss percentages are on cost price, discounts on marked price. Write CP, SP and MP down before calculating.' },
+      { title: 'SP from factors', description: 'SP = CP × (100 + profit%)/100 and SP = MP × (100 - discount%)/100. Equate the two to link marked price and cost.' }
+    ],
+    tolerance: 0.005
+  },
+  {
+    topic: QuestionType.INTEREST,
+    key: 'interest',
+    group: 'arithmetic',
+    label: 'SI & CI',
+    description: 'Simple and compound interest',
+    color: 'from-amber-500 to-yellow-600',
+    stroke: '#f59e0b',
+    guideline: 'Word problems on simple interest, compound interest compounded annually (2 or 3 years), amounts, principals, and the CI - SI difference.',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'CI as SI plus interest on interest', description: 'For 2 years, CI = SI + P × (r/100)². For 3 years, build the year-by-year interest table instead of cubing.' },
+      { title: 'Known growth factors', description: 'Memorize 1.1² = 1.21, 1.1³ = 1.331, 1.05² = 1.1025 and 1.2² = 1.44; most exam rates reuse them.' }
+    ],
+    tolerance: 0.005
+  },
+  {
+    topic: QuestionType.TIME_WORK,
+    key: 'time-work',
+    group: 'arithmetic',
+    label: 'Time & Work',
+    description: 'Working together, man-days, pipes and cisterns',
+    color: 'from-red-500 to-orange-600',
+    stroke: '#ef4444',
+    guideline: 'Word problems on people working together or alone, man-days, and pipes filling or emptying tanks.',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'LCM as total work', description: 'Take the total work as the LCM of the individual times; each person\'s rate is then a whole number of units per day.' },
+      { title: 'Man-days are conserved', description: 'Men × days stays constant for the same job, so M₁D₁ = M₂D₂ answers most crew-size questions in one line.' }
+    ],
+    tolerance: 0.005
+  },
+  {
+    topic: QuestionType.RATIO,
+    key: 'ratio',
+    group: 'arithmetic',
+    label: 'Ratio & Proportion',
+    description: 'Shares, compound ratios and mixtures',
+    color: 'from-indigo-500 to-fuchsia-600',
+    stroke: '#6366f1',
+    guideline: 'Word problems on dividing amounts in a ratio, combining ratios (A:B and B:C), changing ratios and mixtures.',
+    errorCategory: 'concept',
+    techniques: [
+      { title: 'Think in parts', description: 'A ratio 3:5 means 8 equal parts. Find the value of one part first, then everything else is a multiplication.' },
+      { title: 'Match the common term', description: 'To combine A:B and B:C, scale both so B is the same number, then read off A:B:C.' }
+    ],
+    tolerance: 0.005
+  },
+  {
+    topic: QuestionType.DATA_INTERPRETATION,
+    key: 'di',
+    group: 'data',
+    label: 'Data Interpretation',
+    description: 'Question sets on tables and charts',
+    color: 'from-pink-500 to-rose-600',
+    stroke: '#ec4899',
+    guideline:
+      'Questions come in sets of 5 on one shared "dataSet" (a table, bar, line or pie chart with 3-6 "categories" and 1-3 "series"), ' +
+      'repeated unchanged in every question of the set. Each question also gives a "formula" for its answer, referencing cells as {Series|Category}, ' +
+      'e.g. "({Company A|2021} - {Company A|2020}) ÷ {Company A|2020} × 100". Round answers to at most 2 decimals.',
+    errorCategory: 'calculation',
+    techniques: [
+      { title: 'Read the set once', description: 'Every question in a set uses the same chart. Note the unit and scan for totals and extremes before the first question, then answer straight from your notes.' },
+      { title: 'Percentages by fractions', description: 'Percentage change and share questions are divisions; convert to familiar fractions (1/8 = 12.5%, 1/6 ≈ 16.67%) instead of long division.' }
+    ],
+    tolerance: 0.005
+  }
+];
+
+export const TOPIC_INFO = Object.fromEntries(TOPICS.map(t => [t.topic, t])) as Record<QuestionType, TopicInfo>;
+
+export const QUESTION_TYPE_KEYS = Object.fromEntries(TOPICS.map(t => [t.topic, t.key])) as Record<QuestionType, QuestionKey>;
+
+export const QUESTION_KEYS = TOPICS.map(t => t.key);
+
+export const topicForKey = (key: QuestionKey): QuestionType | undefined => TOPICS.find(t => t.key === key)?.topic;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseProfileExport } from './transfer';
+import { DEFAULT_DRILL_SETTINGS } from './drillSettings';
+
+const detail = (extra: object = {}) => ({
+  questionId: 'q1',
+  isCorrect: true,
+  userAnswer: '12',
+  correctAnswer: '12',
+  timeSpent: 4.2,
+  ...extra
+});
+
+const exportFile = (profile: object) =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: '2026-01-01T00:00:00Z',
+    profile: {
+      id: 'p1',
+      name: 'Asha',
+      createdAt: '2026-01-01T00:00:00Z',
+      history: [
+        { id: 'r1', date: '2026-01-01T10:00:00Z', topic: 'Simplification', score: 100, totalQuestions: 1, timeTaken: 4.2, accuracy: 100, maxStreak: 1, details: [detail()] }
+      ],
+      ...profile
+    }
+  });
+
+describe('parseProfileExport', () => {
+  it('keeps the profile settings, clamped like saved ones', () => {
+    const imported = parseProfileExport(exportFile({ settings: { questionCount: 500, timeLimitMode: 'per-question', timeLimitSeconds: 45 } }));
+    expect(imported.settings).toMatchObject({ questionCount: 20, timeLimitSeconds: 45, autoAdvanceMs: DEFAULT_DRILL_SETTINGS.autoAdvanceMs });
+  });
+
+  it('leaves settings out when the export has none', () => {
+    expect(parseProfileExport(exportFile({})).settings).toBeUndefined();
+  });
+
+  it('rejects a question snapshot that is not a whole question', () => {
+    const file = exportFile({
+      history: [
+        {
+          id: 'r1', date: '2026-01-01T10:00:00Z', topic: 'Simplification', score: 0, totalQuestions: 1, timeTaken: 3, accuracy: 0, maxStreak: 0,
+          details: [detail({ question: { id: 'q1', type: 'simplification', questionText: '6 × 2', correctAnswer: '12', options: [12] } })]
+        }
+      ]
+    });
+    expect(() => parseProfileExport(file)).toThrow('Drill 1 detail 1 question has invalid options.');
+  });
+
+  it('drops stats and scoring that are not all numbers, so they are recomputed', () => {
+    const result = { id: 'r1', date: '2026-01-01T10:00:00Z', topic: 'Simplification', score: 100, totalQuestions: 1, timeTaken: 3, accuracy: 100, maxStreak: 1, details: [detail()] };
+    const stats = { correct: 1, wrong: 0, skipped: 0, timedOut: 0, attempted: 1, netMarks: 1, maxMarks: 1 };
+    const scoring = { correct: 1, wrong: -0.25, skipped: 0, timeout: 0 };
+    const [kept, dropped] = parseProfileExport(
+      exportFile({
+        history: [
+          { ...result, stats, scoring },
+          { ...result, id: 'r2', stats: { ...stats, netMarks: 'one' }, scoring: { correct: 1 } }
+        ]
+      })
+    ).history;
+    expect(kept).toMatchObject({ stats, scoring });
+    expect(dropped).not.toHaveProperty('stats');
+    expect(dropped).not.toHaveProperty('scoring');
+  });
+
+  it('accepts a valid question snapshot', () => {
+    const question = { id: 'q1', type: 'simplification', questionText: '6 × 2', correctAnswer: '12', explanation: '', options: ['10', '11', '12', '13', '14'] };
+    const file = exportFile({
+      history: [
+        { id: 'r1', date: '2026-01-01T10:00:00Z', topic: 'Simplification', score: 100, totalQuestions: 1, timeTaken: 3, accuracy: 100, maxStreak: 1, details: [detail({ question })] }
+      ]
+    });
+    expect(parseProfileExport(file).history[0].details[0].question).toEqual(question);
+  });
+});
@@ -0,0 +1,180 @@
+import { DrillDetail, DrillResult, User } from '../types';
+import { isAttemptStats, isScoringModel, outcomeOf, resultStats } from './scoring';
+import { isDataSet } from './dataInterpretation';
+import { normalizeDrillSettings } from './drillSettings';
+import { QUESTION_KEYS } from './topics';
+
+// Moving history in and out of the app: a versioned JSON file that round-trips a
+// whole profile, and a flat CSV (one row per answered question) for spreadsheets.
+
+export const EXPORT_FORMAT = 'rapidmath-profile';
+export const EXPORT_VERSION = 1;
+
+export interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: User;
+}
+
+export const exportProfile = (user: User): string => {
+  const file: ProfileExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: user
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isDate = (v: unknown) => typeof v === 'string' && !Number.isNaN(Date.parse(v));
+
+// The snapshot solutions and the review queue replay, so it must hold a whole question
+const questionProblem = (q: unknown): string | null => {
+  if (!isObject(q)) return 'is not an object';
+  if (typeof q.id !== 'string') return 'has no id';
+  if (!QUESTION_KEYS.includes(q.type as never)) return 'has an unknown type';
+  if (typeof q.questionText !== 'string' || typeof q.correctAnswer !== 'string') return 'is missing its text or answer';
+  if (q.explanation !== undefined && typeof q.explanation !== 'string') return 'has an invalid explanation';
+  if (q.options !== undefined && !(Array.isArray(q.options) && q.options.every(o => typeof o === 'string'))) return 'has invalid options';
+  if (q.dataSet !== undefined && !(isDataSet(q.dataSet) && typeof q.dataSet.id === 'string')) return 'has an invalid dataSet';
+  return null;
+};
+
+// Returns a description of the first problem found, or null when the value is a usable DrillDetail
+const detailProblem = (d: unknown): string | null => {
+  if (!isObject(d)) return 'is not an object';
+  if (typeof d.questionId !== 'string') return 'has no questionId';
+  if (typeof d.isCorrect !== 'boolean') return 'has no isCorrect flag';
+  if (typeof d.userAnswer !== 'string' || typeof d.correctAnswer !== 'string') return 'is missing an answer';
+  if (!isFiniteNumber(d.timeSpent)) return 'has no timeSpent';
+  if (d.question !== undefined) {
+    const problem = questionProblem(d.question);
+    if (problem) return `question ${problem}`;
+  }
+  return null;
+};
+
+const resultProblem = (r: unknown): string | null => {
+  if (!isObject(r)) return 'is not an object';
+  if (typeof r.id !== 'string' || !r.id) return 'has no id';
+  if (!isDate(r.date)) return 'has an invalid date';
+  if (typeof r.topic !== 'string') return 'has no topic';
+  for (const field of ['score', 'totalQuestions', 'timeTaken', 'accuracy', 'maxStreak'] as const) {
+    if (!isFiniteNumber(r[field])) return `has no numeric ${field}`;
+  }
+  if (!Array.isArray(r.details)) return 'has no details';
+  for (let i = 0; i < r.details.length; i++) {
+    const problem = detailProblem(r.details[i]);
+    if (problem) return `detail ${i + 1} ${problem}`;
+  }
+  return null;
+};
+
+// Settings recorded with a result decide its time budget, so they get the same clamping as a profile's.
+// Stats or a scoring model that aren't all numbers are dropped and worked out again from the details.
+const normalizeResult = ({ settings, stats, scoring, ...result }: DrillResult): DrillResult => ({
+  ...result,
+  ...(isObject(settings) ? { settings: normalizeDrillSettings(settings) } : {}),
+  ...(isAttemptStats(stats) ? { stats } : {}),
+  ...(isScoringModel(scoring) ? { scoring } : {})
+});
+
+// Throws with a readable message when the file isn't a profile export this version understands
+export const parseProfileExport = (text: string): User => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) throw new Error('The file is not a RapidMath profile export.');
+  if (!isFiniteNumber(data.version) || data.version > EXPORT_VERSION) {
+    throw new Error(`Export version ${String(data.version)} is newer than this app supports (${EXPORT_VERSION}).`);
+  }
+
+  const profile = data.profile;
+  if (!isObject(profile) || typeof profile.name !== 'string' || !Array.isArray(profile.history)) {
+    throw new Error('The export has no profile history.');
+  }
+  profile.history.forEach((r, i) => {
+    const problem = resultProblem(r);
+    if (problem) throw new Error(`Drill ${i + 1} ${problem}.`);
+  });
+
+  return {
+    id: typeof profile.id === 'string' ? profile.id : '',
+    name: profile.name,
+    createdAt: isDate(profile.createdAt) ? (profile.createdAt as string) : new Date().toISOString(),
+    history: (profile.history as DrillResult[]).map(normalizeResult),
+    ...(isObject(profile.settings) ? { settings: normalizeDrillSettings(profile.settings) } : {})
+  };
+};
+
+// Results from `incoming` whose ids aren't already in `existing`, in date order
+export const newResults = (existing: DrillResult[], incoming: DrillResult[]): DrillResult[] => {
+  const known = new Set(existing.map(r => r.id));
+  const added = new Map<string, DrillResult>();
+  for (const r of incoming) {
+    if (!known.has(r.id) && !added.has(r.id)) added.set(r.id, r);
+  }
+  return [...added.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const mergeHistory = (existing: DrillResult[], incoming: DrillResult[]): DrillResult[] =>
+  [...existing, ...newResults(existing, incoming)].sort((a, b) => a.date.localeCompare(b.date));
+
+const CSV_COLUMNS = [
+  'resultId', 'date', 'drillTopic', 'drillDifficulty', 'drillScore', 'drillAccuracy', 'drillNetMarks',
+  'questionNumber', 'questionId', 'questionType', 'questionDifficulty', 'outcome', 'isCorrect',
+  'userAnswer', 'correctAnswer', 'matchMethod', 'timeSpent', 'visits', 'markedForReview'
+];
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportHistoryCsv = (history: DrillResult[]): string => {
+  const rows = history.flatMap(result => {
+    const stats = resultStats(result);
+    return result.details.map((d: DrillDetail, i) => [
+      result.id,
+      result.date,
+      result.topic,
+      result.difficulty,
+      Number(result.score.toFixed(2)),
+      Number(result.accuracy.toFixed(2)),
+      stats.netMarks,
+      i + 1,
+      d.questionId,
+      d.type,
+      d.difficulty,
+      outcomeOf(d),
+      d.isCorrect,
+      d.userAnswer,
+      d.correctAnswer,
+      d.matchMethod,
+      d.timeSpent,
+      d.visits,
+      d.markedForReview
+    ]);
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// Hands a generated file to the browser as a download
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same task can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
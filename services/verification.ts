@@ -0,0 +1,305 @@
+import { Question, Verification } from '../types';
+import { evaluate, parseEquation, parseNumber } from './expression';
+import { compareRoots } from './offline';
+import { evaluateFormula, substituteCells } from './dataInterpretation';
+
+// Independent checks for AI-generated questions. Every question either comes back
+// with its correctAnswer confirmed (or repaired to the option our own working
+// supports), or is dropped so a student is never marked wrong by a bad key.
+
+interface Check {
+  answer: string;
+  note?: string;
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b));
+
+const numericOptions = (options: string[]) =>
+  options
+    .map(option => ({ option, value: parseNumber(option) }))
+    .filter((o): o is { option: string; value: number } => o.value !== null);
+
+// ---------- Simplification / Approximation ----------
+
+const checkExpression = (q: Question, approximate: boolean): Check | null => {
+  const equation = parseEquation(q.questionText);
+  if (!equation || !q.options) return null;
+  const candidates = numericOptions(q.options);
+  if (candidates.length === 0) return null;
+
+  const residual = (value: number) => {
+    try {
+      return Math.abs(evaluate(equation.lhs, value) - evaluate(equation.rhs, value));
+    } catch {
+      return null;
+    }
+  };
+
+  const scored = candidates
+    .map(c => ({ ...c, error: residual(c.value) }))
+    .filter((c): c is typeof c & { error: number } => c.error !== null)
+    .sort((a, b) => a.error - b.error);
+  if (scored.length === 0) return null;
+
+  const [best, runnerUp] = scored;
+  if (approximate || equation.approximate) {
+    // The nearest option must be clearly nearer than the next one, or rounding can't decide it
+    if (runnerUp && runnerUp.error - best.error < 0.25 * Math.abs(runnerUp.value - best.value)) return null;
+    return { answer: best.option, note: 'Closest option to the exact value' };
+  }
+  // Allow for answers the AI rounded to two decimals
+  const tolerance = Math.max(0.005, Math.abs(best.value) * 1e-6);
+  if (best.error > tolerance) return null;
+  if (runnerUp && runnerUp.error <= tolerance) return null;
+  return { answer: best.option };
+};
+
+// ---------- Number Series ----------
+
+type Detector = (terms: number[]) => boolean;
+
+const diffs = (terms: number[]) => terms.slice(1).map((t, i) => t - terms[i]);
+
+const constant = (values: number[]) => values.length >= 2 && values.every(v => close(v, values[0]));
+
+const arithmetic = (values: number[]) => constant(diffs(values));
+
+const ratios = (terms: number[]) =>
+  terms.some((t, i) => i < terms.length - 1 && t === 0) ? null : terms.slice(1).map((t, i) => t / terms[i]);
+
+const geometric = (values: number[]) => {
+  const r = ratios(values);
+  return !!r && constant(r);
+};
+
+// Ordered simplest first; the first family that explains an option wins
+const SERIES_DETECTORS: { name: string; fits: Detector }[] = [
+  { name: 'constant difference', fits: arithmetic },
+  { name: 'constant ratio', fits: geometric },
+  { name: 'second differences constant', fits: t => arithmetic(diffs(t)) },
+  {
+    name: '×a + b recurrence',
+    fits: t => {
+      if (t.length < 4 || t[1] === t[0]) return false;
+      const a = (t[2] - t[1]) / (t[1] - t[0]);
+      const b = t[1] - a * t[0];
+      return t.slice(1).every((v, i) => close(v, a * t[i] + b));
+    }
+  },
+  { name: 'differences in a constant ratio', fits: t => geometric(diffs(t)) },
+  { name: 'third differences constant', fits: t => arithmetic(diffs(diffs(t))) },
+  {
+    name: 'multiplier increasing steadily',
+    fits: t => {
+      const r = ratios(t);
+      return !!r && arithmetic(r);
+    }
+  },
+  {
+    name: '×n + n pattern',
+    fits: t => t.slice(0, -1).every(v => v !== -1) && arithmetic(t.slice(1).map((v, i) => v / (t[i] + 1)))
+  },
+  {
+    name: '×n - n pattern',
+    fits: t => t.slice(0, -1).every(v => v !== 1) && arithmetic(t.slice(1).map((v, i) => v / (t[i] - 1)))
+  },
+  {
+    name: 'two alternating series',
+    fits: t => {
+      // Each half needs enough known terms that the missing one can't fit it trivially
+      if (t.length < 8) return false;
+      const even = t.filter((_, i) => i % 2 === 0);
+      const odd = t.filter((_, i) => i % 2 === 1);
+      return (arithmetic(even) || geometric(even)) && (arithmetic(odd) || geometric(odd));
+    }
+  }
+];
+
+const parseSeries = (text: string) => {
+  const body = text.includes(':') ? text.slice(text.lastIndexOf(':') + 1) : text;
+  const parts = body.split(',').map(p => p.trim().replace(/\.$/, ''));
+  const terms = parts.map(p => (p === '?' ? null : parseNumber(p)));
+  const missing = parts.filter(p => p === '?').length;
+  if (missing !== 1 || terms.some((t, i) => t === null && parts[i] !== '?')) return null;
+  if (terms.length < 5) return null;
+  return terms;
+};
+
+const checkSeries = (q: Question): Check | null => {
+  const terms = parseSeries(q.questionText);
+  if (!terms || !q.options) return null;
+  const hole = terms.indexOf(null);
+  const fill = (value: number) => terms.map((t, i) => (i === hole ? value : (t as number)));
+
+  const candidates = numericOptions(q.options);
+  const claimed = candidates.find(c => c.option === q.correctAnswer);
+  if (claimed) {
+    const detector = SERIES_DETECTORS.find(d => d.fits(fill(claimed.value)));
+    if (detector) return { answer: claimed.option, note: detector.name };
+  }
+  for (const detector of SERIES_DETECTORS) {
+    const matches = candidates.filter(c => detector.fits(fill(c.value)));
+    if (matches.length === 1) return { answer: matches[0].option, note: detector.name };
+    if (matches.length > 1) return null;
+  }
+  return null;
+};
+
+// ---------- Quadratic ----------
+
+// Collects polynomial coefficients (by power) for one side of an equation in `v`
+const parsePolynomialSide = (side: string, v: string, coefficients: number[], sign: number) => {
+  const normalized = side
+    .replace(/\s+/g, '')
+    .replace(/[−–]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/\^\{(\d)\}/g, '^$1'); // Math markup may brace a lone exponent
+  const terms = normalized.match(/[+-]?[^+-]+/g);
+  if (!terms) throw new Error('Empty equation side');
+  for (const term of terms) {
+    const match = new RegExp(`^([+-]?)(\\d*\\.?\\d*(?:/\\d+)?)\\*?(${v}(?:\\^(\\d))?)?$`).exec(term);
+    if (!match || (!match[2] && !match[3])) throw new Error(`Unrecognised term "${term}"`);
+    const [, termSign, coef, variable, power] = match;
+    const magnitude = coef ? parseNumber(coef) : 1;
+    if (magnitude === null) throw new Error(`Unrecognised coefficient "${coef}"`);
+    const degree = variable ? Number(power || 1) : 0;
+    if (degree > 3) throw new Error(`Unsupported degree ${degree}`);
+    coefficients[degree] = (coefficients[degree] || 0) + sign * (termSign === '-' ? -1 : 1) * magnitude;
+  }
+};
+
+export const solvePolynomial = (equation: string, v: string): number[] | null => {
+  const [lhs, rhs, extra] = equation.split('=');
+  if (lhs === undefined || rhs === undefined || extra !== undefined) return null;
+  const c: number[] = [0, 0, 0, 0];
+  try {
+    parsePolynomialSide(lhs, v, c, 1);
+    parsePolynomialSide(rhs, v, c, -1);
+  } catch {
+    return null;
+  }
+  const [c0, c1, c2, c3] = c.map(x => x || 0);
+
+  if (c3 !== 0) {
+    // Only the pure-cube form (a·v³ + c = 0) is common in the exam
+    if (c2 !== 0 || c1 !== 0) return null;
+    return [Math.cbrt(-c0 / c3)];
+  }
+  if (c2 !== 0) {
+    const disc = c1 * c1 - 4 * c2 * c0;
+    if (disc < -1e-9) return null;
+    const root = Math.sqrt(Math.max(0, disc));
+    return [(-c1 + root) / (2 * c2), (-c1 - root) / (2 * c2)];
+  }
+  if (c1 !== 0) return [-c0 / c1];
+  return null;
+};
+
+// Maps the many ways an option can spell a relation onto the canonical QUADRATIC_OPTIONS wording
+export const normalizeRelation = (input: string): string | null => {
+  const text = input
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/≥|=>/g, '>=')
+    .replace(/≤|=</g, '<=');
+  if (/norelation|cannotbe|can'tbe|notbeestablished|x=y/.test(text)) return 'x = y or no relation';
+  const match = /^([xy])(>=|<=|>|<)([xy])$/.exec(text);
+  if (!match || match[1] === match[3]) return null;
+  const flip: Record<string, string> = { '>': '<', '<': '>', '>=': '<=', '<=': '>=' };
+  const op = match[1] === 'x' ? match[2] : flip[match[2]];
+  return `x ${op} y`;
+};
+
+const checkQuadratic = (q: Question): Check | null => {
+  const lines = q.questionText
+    .replace(/\(?\bII\b[.):]/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/^\s*(equation\s*)?\(?I{1,2}\b[.):]?\s*/i, '').trim())
+    .filter(line => line.includes('='));
+  const xLine = lines.find(l => /x/.test(l) && !/y/.test(l));
+  const yLine = lines.find(l => /y/.test(l) && !/x/.test(l));
+  if (!xLine || !yLine || !q.options) return null;
+
+  const xs = solvePolynomial(xLine, 'x');
+  const ys = solvePolynomial(yLine, 'y');
+  if (!xs || !ys) return null;
+
+  const relation = compareRoots(xs, ys);
+  const option = q.options.find(o => normalizeRelation(o) === relation);
+  if (!option) return null;
+  const fmt = (roots: number[]) => roots.map(r => Number(r.toFixed(3))).join(', ');
+  return { answer: option, note: `x = ${fmt(xs)}; y = ${fmt(ys)}` };
+};
+
+// ---------- Formulas (Data Interpretation, arithmetic word problems) ----------
+
+// The formula is the model's working; the key is the one option matching its value
+const matchFormulaValue = (options: string[], value: number, working: string): Check | null => {
+  const tolerance = Math.max(0.01, Math.abs(value) * 0.005);
+  const matches = numericOptions(options).filter(o => Math.abs(o.value - value) <= tolerance);
+  if (matches.length !== 1) return null;
+  return { answer: matches[0].option, note: `${working} = ${Number(value.toFixed(4))}` };
+};
+
+const checkDataInterpretation = (q: Question): Check | null => {
+  if (!q.dataSet || !q.formula || !q.options) return null;
+  const value = evaluateFormula(q.formula, q.dataSet);
+  if (value === null) return null;
+  return matchFormulaValue(q.options, value, substituteCells(q.formula, q.dataSet)!);
+};
+
+const numbersIn = (text: string) => (text.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/\d*\.?\d+/g) ?? []).map(Number);
+
+const checkWordProblem = (q: Question): Check | null => {
+  if (!q.formula || !q.options) return null;
+  // A formula using numbers the question never mentions is working for some other question
+  const stated = new Set(numbersIn(q.questionText));
+  if (numbersIn(q.formula).some(n => n !== 1 && n !== 100 && !stated.has(n))) return null;
+  try {
+    const value = evaluate(q.formula);
+    return Number.isFinite(value) ? matchFormulaValue(q.options, value, q.formula) : null;
+  } catch {
+    return null;
+  }
+};
+
+// ---------- Entry points ----------
+
+const CHECKS: Record<Question['type'], (q: Question) => Check | null> = {
+  simplification: q => checkExpression(q, false),
+  approximation: q => checkExpression(q, true),
+  series: checkSeries,
+  quadratic: checkQuadratic,
+  di: checkDataInterpretation,
+  percentage: checkWordProblem,
+  'profit-loss': checkWordProblem,
+  interest: checkWordProblem,
+  'time-work': checkWordProblem,
+  ratio: checkWordProblem
+};
+
+export const verifyQuestion = (question: Question): Question | null => {
+  const check = CHECKS[question.type];
+  if (!check || !question.options || question.options.length === 0) return null;
+  const result = check(question);
+  if (!result) return null;
+
+  const verification: Verification =
+    result.answer === question.correctAnswer
+      ? { status: 'verified', note: result.note }
+      : {
+          status: 'repaired',
+          note: [`Answer key changed from "${question.correctAnswer}" to "${result.answer}"`, result.note]
+            .filter(Boolean)
+            .join('; ')
+        };
+  return { ...question, correctAnswer: result.answer, verification };
+};
+
+export const verifyQuestions = (questions: Question[]): Question[] => {
+  const verified = questions.map(verifyQuestion);
+  const dropped = verified.filter(q => q === null).length;
+  if (dropped > 0) console.warn(`Dropped ${dropped} question(s) that could not be verified`);
+  return verified.filter((q): q is Question => q !== null);
+};
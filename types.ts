@@ -1,15 +1,52 @@
 export interface User {
+  id: string;
   name: string;
+  createdAt: string;
+  settings?: DrillSettings; // Defaults apply until the profile saves its own
   history: DrillResult[];
 }
 
 export interface Question {
   id: string;
-  type: 'simplification' | 'series' | 'quadratic' | 'approximation';
+  type: QuestionKey;
   questionText: string;
   correctAnswer: string;
   explanation: string;
   options?: string[]; // Multiple choice options if applicable
+  difficulty?: number; // 1 (easy) to 5 (toughest mains level)
+  verification?: Verification;
+  dataSet?: DataSet; // Data Interpretation: shared by every question in the set
+  formula?: string; // How the answer is worked out, as a BODMAS expression; DI cells are written {Series|Category}
+}
+
+export type QuestionKey =
+  | 'simplification'
+  | 'series'
+  | 'quadratic'
+  | 'approximation'
+  | 'di'
+  | 'percentage'
+  | 'profit-loss'
+  | 'interest'
+  | 'time-work'
+  | 'ratio';
+
+export type ChartKind = 'table' | 'bar' | 'line' | 'pie';
+
+// One table or chart that a Data Interpretation set is asked about
+export interface DataSet {
+  id: string;
+  kind: ChartKind;
+  title: string;
+  unit?: string;
+  categories: string[]; // Row / x-axis labels, e.g. years; pie slices
+  series: { name: string; values: number[] }[]; // One value per category; a pie uses the first series
+}
+
+// How far the answer key can be trusted: checked locally, corrected locally, or produced by the offline generators
+export interface Verification {
+  status: 'verified' | 'repaired' | 'generated';
+  note?: string;
 }
 
 export interface DrillResult {
@@ -21,20 +58,282 @@ export interface DrillResult {
   timeTaken: number; // in seconds
   accuracy: number;
   maxStreak: number;
+  difficulty?: number; // Difficulty level the drill targeted
+  stats?: AttemptStats;
+  scoring?: ScoringModel;
+  settings?: DrillSettings; // What the drill ran under, so results are compared like for like
+  details: DrillDetail[];
+}
+
+export type TimeLimitMode = 'per-question' | 'whole-drill';
+
+export interface DrillSettings {
+  questionCount: number;
+  timeLimitMode: TimeLimitMode;
+  timeLimitSeconds: number; // Per question, or for the whole drill
+  autoAdvanceMs: number; // How long answer feedback stays up
+  showAnswerOnMiss: boolean;
+  difficulty: number | 'adaptive'; // 'adaptive' follows the topic rating
+  scoring: ScoringPresetId; // Negative marking for drills and mock tests
+}
+
+export type AnswerOutcome = 'correct' | 'wrong' | 'skipped' | 'timeout';
+
+export type MatchMethod = 'exact' | 'option-letter' | 'numeric' | 'relation' | 'tolerance' | 'none';
+
+// Marks awarded per outcome, e.g. -0.25 for a wrong answer under IBPS rules
+export type ScoringPresetId = 'ibps' | 'third' | 'none';
+
+export interface ScoringModel {
+  correct: number;
+  wrong: number;
+  skipped: number;
+  timeout: number;
+}
+
+export interface AttemptStats {
+  correct: number;
+  wrong: number;
+  skipped: number;
+  timedOut: number;
+  attempted: number; // correct + wrong
+  netMarks: number;
+  maxMarks: number;
+}
+
+export interface DrillDetail {
+  questionId: string;
+  isCorrect: boolean;
+  outcome?: AnswerOutcome;
+  matchMethod?: MatchMethod; // How the answer was compared with the key
+  userAnswer: string;
+  correctAnswer: string;
+  timeSpent: number;
+  type?: Question['type'];
+  difficulty?: number;
+  question?: Question; // Snapshot for worked solutions and the review queue; older results kept it for misses only
+  visits?: number; // Mock tests: how many times the question was opened
+  markedForReview?: boolean; // Mock tests: still flagged when the section was submitted
+}
+
+// SM-2 style schedule for one missed question
+export interface ReviewCard {
+  key: string; // `${profileId}:${question.id}`
+  profileId: string;
+  question: Question;
+  easiness: number;
+  interval: number; // in days
+  repetitions: number;
+  lapses: number;
+  due: string;
+  lastReviewed?: string;
+}
+
+export type FactKind = 'square' | 'cube' | 'table' | 'fraction';
+
+// One recall fact for sprint mode, e.g. "37²" → 1369
+export interface Fact {
+  id: string; // e.g. 'square-37', 'table-17x8', 'fraction-3/8'
+  kind: FactKind;
+  prompt: string;
+  answer: number;
+}
+
+// How well a profile knows one fact; weak facts are drawn more often
+export interface FactMastery {
+  key: string; // `${profileId}:${factId}`
+  profileId: string;
+  factId: string;
+  attempts: number;
+  correct: number;
+  streak: number; // Consecutive correct answers
+  avgMs: number; // Moving average of correct response times
+  lastSeen: string;
+}
+
+export interface SprintAttempt {
+  factId: string;
+  correct: boolean;
+  ms: number;
+  given: string;
+}
+
+export type AppView = 'login' | 'dashboard' | 'drill' | 'mock' | 'analysis' | 'solutions' | 'analytics' | 'sprint' | 'settings';
+
+// Where the URL hash points; every AppView has one, drills and reports carry their subject
+export type Route =
+  | { view: 'login' }
+  | { view: 'dashboard' }
+  | { view: 'drill'; topic: QuestionType | typeof REVIEW_TOPIC }
+  | { view: 'mock' }
+  | { view: 'analysis'; drillId: string }
+  | { view: 'solutions'; drillId: string }
+  | { view: 'analytics' }
+  | { view: 'sprint' }
+  | { view: 'settings' };
+
+export type HotkeyAction =
+  | 'option1' | 'option2' | 'option3' | 'option4' | 'option5'
+  | 'submit' | 'skip' | 'pause' | 'abort' | 'focusAnswer';
+
+// Lower-cased KeyboardEvent.key values per action
+export type HotkeyBindings = Record<HotkeyAction, string[]>;
+
+// Where drill questions come from: the configured AI provider, or the local procedural generators
+export type QuestionSource = 'ai' | 'offline';
+
+// A verified question kept locally so drills can start without waiting on a provider
+export interface BankedQuestion {
+  hash: string; // Normalized content hash, so the same question is stored once
+  topic: QuestionType;
+  question: Question;
+  provider: ProviderId;
+  addedAt: string;
+}
+
+export interface SeenQuestion {
+  key: string; // `${profileId}:${hash}`
+  profileId: string;
+  hash: string;
+  seenAt: string;
+}
+
+// Backends that can write questions and coaching tips
+export type ProviderId = 'gemini' | 'openai' | 'offline' | 'fixture';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1
+  apiKey?: string;
+}
+
+// What the coach sees of a finished drill, trimmed to keep prompts small
+export interface DrillSummary {
+  topic: string;
+  difficulty?: number;
+  score: number;
+  accuracy: number;
+  netMarks: number;
+  correct: number;
+  wrong: number;
+  skipped: number;
+  timedOut: number;
+  maxStreak: number;
   details: {
-    questionId: string;
-    isCorrect: boolean;
+    questionNumber: number;
+    topic: QuestionType | null;
+    questionText?: string; // Only kept for misses
+    outcome: AnswerOutcome;
+    wasCorrect: boolean;
+    timeTaken: number;
     userAnswer: string;
     correctAnswer: string;
-    timeSpent: number;
   }[];
 }
 
-export type AppView = 'login' | 'dashboard' | 'drill' | 'analysis';
+export type ErrorCategory = 'calculation' | 'pattern' | 'concept' | 'estimation' | 'careless' | 'time-management';
+
+export interface MistakeFeedback {
+  questionNumber: number;
+  category: ErrorCategory;
+  note: string;
+}
+
+export interface CoachTechnique {
+  title: string;
+  description: string;
+}
+
+export interface DrillRecommendation {
+  topic: QuestionType;
+  difficulty: number;
+  count: number;
+  reason: string;
+}
+
+// Structured coaching, whether it came from a model or from the rule-based fallback
+export interface CoachReport {
+  summary: string;
+  mistakes: MistakeFeedback[];
+  techniques: CoachTechnique[];
+  nextDrill: DrillRecommendation;
+  source: 'ai' | 'rules';
+}
+
+export interface QuestionProvider {
+  id: ProviderId;
+  label: string;
+  generateQuestions: (topic: QuestionType, count: number, difficulty: number) => Promise<Question[]>; // Rejects with a GenerationError
+}
+
+export interface CoachProvider {
+  id: ProviderId;
+  analyzeDrill: (summary: DrillSummary) => Promise<CoachReport>;
+}
+
+// Topic label used for drills replaying due review cards
+export const REVIEW_TOPIC = 'Review';
+
+// Topic label for mixed-topic, sectionally timed mock tests
+export const MOCK_TOPIC = 'Mock Test';
 
 export enum QuestionType {
   SIMPLIFICATION = 'Simplification',
   SERIES = 'Number Series',
   QUADRATIC = 'Quadratic Equations',
-  APPROXIMATION = 'Approximation'
-}
\ No newline at end of file
+  APPROXIMATION = 'Approximation',
+  DATA_INTERPRETATION = 'Data Interpretation',
+  PERCENTAGE = 'Percentage',
+  PROFIT_LOSS = 'Profit & Loss',
+  INTEREST = 'Simple & Compound Interest',
+  TIME_WORK = 'Time & Work',
+  RATIO = 'Ratio & Proportion'
+}
+
+export type TopicGroup = 'calculation' | 'arithmetic' | 'data';
+
+// Everything the app knows about a topic besides how to generate and check its questions
+export interface TopicInfo {
+  topic: QuestionType;
+  key: QuestionKey;
+  group: TopicGroup;
+  label: string; // Short name for cards
+  description: string;
+  color: string; // Tailwind gradient for the Dashboard card
+  stroke: string; // Chart colour
+  guideline: string; // Topic-specific instructions for question generation
+  errorCategory: ErrorCategory; // What a miss most likely means
+  techniques: CoachTechnique[];
+  tolerance?: number; // Relative tolerance for typed numeric answers
+}
+
+// ---------- Challenge links ----------
+
+// The challenger's run, carried in the link so the recipient can compare
+export interface ChallengerResult {
+  name: string;
+  netMarks: number;
+  maxMarks: number;
+  correct: number;
+  wrong: number;
+  accuracy: number;
+  timeTaken: number;
+  outcomes: AnswerOutcome[]; // Per question, in order
+}
+
+// Offline drills travel as their generator seed; anything else is frozen question by question
+export type ChallengeSource =
+  | { kind: 'seed'; seed: number }
+  | { kind: 'questions'; questions: Question[] };
+
+export interface Challenge {
+  v: 1;
+  topic: QuestionType | typeof REVIEW_TOPIC;
+  difficulty: number;
+  count: number;
+  scoring?: ScoringModel;
+  settings?: DrillSettings; // Timing the challenger played under
+  source: ChallengeSource;
+  challenger?: ChallengerResult;
+}